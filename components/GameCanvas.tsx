@@ -1,40 +1,189 @@
-import { useRef, useEffect, useState } from "react";
+import { useRef, useEffect, useState, type CSSProperties } from "react";
 import { Game } from "../engine/Game";
+import { isTypingTarget } from "../engine/input/InputManager";
+import { serializeReplay } from "../engine/replay";
+import { serializeSimulationState, deserializeSimulationState } from "../engine/SimulationState";
+import { loadLevels, LevelProgress, type LevelDefinition } from "../engine/levels";
+import { Leaderboard, type LeaderboardEntry, type ScoreAward } from "../engine/scoring";
+import { THEMES, DEFAULT_THEME, isThemeName, themeBallColor, type ThemeName } from "../engine/themes";
+import type { ActiveEffect } from "../engine/PowerUpEffects";
+import type { ObjectiveProgress } from "../engine/objectives";
 import { GameState } from "../types/GameState";
 import GameUI from "./GameUI";
 
+// localStorage key for a round in progress when the page was hidden or closed
+const SAVED_ROUND_KEY = "ball-satisfaction:saved-round";
+// localStorage key for the sound mute toggle
+const MUTED_KEY = "ball-satisfaction:muted";
+// localStorage key for the visual theme
+const THEME_KEY = "ball-satisfaction:theme";
+// Leaderboard for rounds that aren't part of a level
+const FREE_PLAY_ID = "free-play";
+
 export default function GameCanvas() {
   const host = useRef<HTMLDivElement>(null);
   const gameRef = useRef<Game | null>(null);
   const [gameState, setGameState] = useState<GameState>(GameState.LOADING);
   const [gameTimer, setGameTimer] = useState<number>(0);
-  const [gameProgress, setGameProgress] = useState<{ escaped: number; target: number }>({ escaped: 0, target: 8 });
+  const [gameProgress, setGameProgress] = useState<{ escaped: number; target: number; rings?: number[] }>({ escaped: 0, target: 8 });
+  const [ringEscape, setRingEscape] = useState<{ ringIndex: number; ringCount: number } | null>(null);
   const [gameConfig, setGameConfig] = useState<{ targetEscapes: number; timeLimit: number }>({ targetEscapes: 8, timeLimit: 60 });
+  const [levels, setLevels] = useState<LevelDefinition[]>([]);
+  const levelsRef = useRef<LevelDefinition[]>([]);
+  const progressRef = useRef<LevelProgress | null>(null);
+  const [unlockedLevels, setUnlockedLevels] = useState<number>(1);
+  const [currentLevelId, setCurrentLevelId] = useState<string | undefined>(undefined);
+  const [showLevelSelect, setShowLevelSelect] = useState<boolean>(false);
+  const [muted, setMuted] = useState<boolean>(false);
+  const [theme, setTheme] = useState<ThemeName>(DEFAULT_THEME);
+  const [score, setScore] = useState<number>(0);
+  const [scoreAward, setScoreAward] = useState<ScoreAward | null>(null);
+  const [effects, setEffects] = useState<ActiveEffect[]>([]);
+  const [objectives, setObjectives] = useState<ObjectiveProgress | null>(null);
+  const leaderboardRef = useRef<Leaderboard | null>(null);
+  const [leaderboardEntries, setLeaderboardEntries] = useState<LeaderboardEntry[]>([]);
+  const [canSubmitScore, setCanSubmitScore] = useState<boolean>(false);
+  const [submittedRank, setSubmittedRank] = useState<number | null>(null);
+  const [playerName, setPlayerName] = useState<string>("");
 
   useEffect(() => {
     const g = new Game();
     gameRef.current = g;
 
-    // Set up game state change listener
-    g.onGameStateChange = (newState: GameState) => {
+    const savedMuted = localStorage.getItem(MUTED_KEY) === "true";
+    g.setMuted(savedMuted);
+    setMuted(savedMuted);
+
+    const savedTheme = localStorage.getItem(THEME_KEY);
+    if (savedTheme && isThemeName(savedTheme)) {
+      g.setTheme(savedTheme);
+      setTheme(savedTheme);
+    }
+
+    const progress = new LevelProgress(localStorage);
+    progressRef.current = progress;
+    setUnlockedLevels(progress.getUnlockedCount());
+
+    const leaderboard = new Leaderboard(localStorage);
+    leaderboardRef.current = leaderboard;
+    setPlayerName(leaderboard.getLastName());
+
+    loadLevels().then((loaded) => {
+      levelsRef.current = loaded;
+      setLevels(loaded);
+    }).catch((error) => {
+      console.error("Failed to load levels:", error);
+    });
+
+    // Keep the UI in sync with gameplay events
+    g.events.on("stateChanged", ({ state: newState }) => {
       setGameState(newState);
+      setGameProgress(g.getGameProgress());
+      setScore(g.getScore());
+
+      const { levelId } = g.getGameConfig();
+      setCurrentLevelId(levelId);
+
+      // Offer a finished round's score for the leaderboard (replays don't count)
+      if (newState === GameState.WIN || newState === GameState.GAME_OVER) {
+        const boardId = levelId ?? FREE_PLAY_ID;
+        setLeaderboardEntries(leaderboard.getEntries(boardId));
+        setCanSubmitScore(!g.isPlayingReplay() && leaderboard.qualifies(boardId, g.getScore()));
+        setSubmittedRank(null);
+      }
+
+      // Winning a level unlocks the next one (watching a replay win doesn't)
+      if (newState === GameState.WIN && levelId !== undefined && !g.isPlayingReplay()) {
+        const levelIndex = levelsRef.current.findIndex(level => level.id === levelId);
+        if (levelIndex !== -1) {
+          progress.completeLevel(levelIndex);
+          setUnlockedLevels(progress.getUnlockedCount());
+        }
+      }
+    });
+
+    g.events.on("timerTick", ({ remaining }) => {
+      setGameTimer(remaining);
+    });
+
+    g.events.on("ballEscaped", () => {
+      setGameProgress(g.getGameProgress());
+    });
+
+    // Flash combo and bonus awards in the HUD
+    let scoreAwardTimeout: ReturnType<typeof setTimeout> | undefined;
+    g.events.on("scoreChanged", ({ score: newScore, award }) => {
+      setScore(newScore);
+      if (award.reason === "timeBonus") return;
+      setScoreAward(award);
+      clearTimeout(scoreAwardTimeout);
+      scoreAwardTimeout = setTimeout(() => setScoreAward(null), 1000);
+    });
+
+    g.events.on("effectsChanged", ({ effects }) => {
+      setEffects(effects);
+    });
+
+    g.events.on("objectivesChanged", ({ objectives }) => {
+      setObjectives(objectives);
+    });
+
+    // Flash per-ring escapes in the HUD
+    let ringEscapeTimeout: ReturnType<typeof setTimeout> | undefined;
+    g.events.on("ringCleared", ({ ringIndex, ringCount }) => {
+      setGameProgress(g.getGameProgress());
+      setRingEscape({ ringIndex, ringCount });
+      clearTimeout(ringEscapeTimeout);
+      ringEscapeTimeout = setTimeout(() => setRingEscape(null), 1000);
+    });
+
+    g.init(host.current!).then(() => {
+      // Resume a round that was in progress when the page was last closed
+      const savedRound = localStorage.getItem(SAVED_ROUND_KEY);
+      if (savedRound && gameRef.current === g) {
+        localStorage.removeItem(SAVED_ROUND_KEY);
+        try {
+          g.loadState(deserializeSimulationState(savedRound));
+          // The saved round may be on another level than the default one
+          setGameConfig(g.getGameConfig());
+        } catch (error) {
+          console.error("Failed to resume saved round:", error);
+        }
+      }
+    });
+
+    // Save the round in progress when the page goes away
+    const handlePageHide = () => {
+      const state = g.getGameState();
+      if ((state === GameState.PLAYING || state === GameState.PAUSED) && !g.isPlayingReplay()) {
+        const state = g.saveState();
+        if (state) {
+          localStorage.setItem(SAVED_ROUND_KEY, serializeSimulationState(state));
+        }
+      }
     };
+    window.addEventListener("pagehide", handlePageHide);
 
-        g.init(host.current!);
+    // Escape or P toggles pause
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== "Escape" && event.key !== "p") return;
+      if (isTypingTarget(event.target)) return;
+      if (g.isPaused()) {
+        g.resume();
+      } else {
+        g.pause();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
 
     // Get game configuration
     setGameConfig(g.getGameConfig());
 
-    // Set up regular updates for timer and progress during gameplay
-    const updateInterval = setInterval(() => {
-      if (gameRef.current && gameRef.current.getGameState() === GameState.PLAYING) {
-        setGameTimer(gameRef.current.getGameTimer());
-        setGameProgress(gameRef.current.getGameProgress());
-      }
-    }, 100); // Update 10 times per second for smooth timer
-
     return () => {
-      clearInterval(updateInterval);
+      window.removeEventListener("pagehide", handlePageHide);
+      window.removeEventListener("keydown", handleKeyDown);
+      clearTimeout(ringEscapeTimeout);
+      clearTimeout(scoreAwardTimeout);
       g.destroy();
       gameRef.current = null;
     };
@@ -46,15 +195,96 @@ export default function GameCanvas() {
     }
   };
 
+  const handleSelectLevel = (index: number) => {
+    const level = levels[index];
+    if (!gameRef.current || !level || !progressRef.current?.isUnlocked(index)) return;
+
+    setShowLevelSelect(false);
+    gameRef.current.startLevel(level);
+    setGameConfig(gameRef.current.getGameConfig());
+  };
+
+  const handleToggleMute = () => {
+    const nextMuted = !muted;
+    setMuted(nextMuted);
+    gameRef.current?.setMuted(nextMuted);
+    localStorage.setItem(MUTED_KEY, String(nextMuted));
+  };
+
+  const handleCycleTheme = () => {
+    const names = Object.keys(THEMES) as ThemeName[];
+    const nextTheme = names[(names.indexOf(theme) + 1) % names.length];
+    setTheme(nextTheme);
+    gameRef.current?.setTheme(nextTheme);
+    localStorage.setItem(THEME_KEY, nextTheme);
+  };
+
+  const hud = THEMES[theme].hud;
+  // HUD colors for GameUI's theme-aware classes
+  const themeStyle = {
+    "--hud-panel": hud.panel,
+    "--hud-border": hud.border,
+    "--hud-text": hud.text,
+    "--hud-label": hud.label,
+    "--hud-escaped": hud.escaped,
+    "--hud-time": hud.time,
+    "--hud-score": hud.score
+  } as CSSProperties;
+
+  const handleSubmitScore = () => {
+    const g = gameRef.current;
+    const leaderboard = leaderboardRef.current;
+    if (!g || !leaderboard || !canSubmitScore) return;
+
+    const boardId = g.getGameConfig().levelId ?? FREE_PLAY_ID;
+    setSubmittedRank(leaderboard.addEntry(boardId, playerName, g.getScore()));
+    setLeaderboardEntries(leaderboard.getEntries(boardId));
+    setCanSubmitScore(false);
+  };
+
+  const handleShareReplay = () => {
+    const replay = gameRef.current?.getReplay();
+    if (!replay) return;
+
+    navigator.clipboard.writeText(serializeReplay(replay)).catch((error) => {
+      console.error("Failed to copy replay:", error);
+    });
+  };
+
   return (
-    <div className="w-full h-full relative">
+    <div className="w-full h-full relative" style={themeStyle}>
       <div ref={host} className="w-full h-full" />
       <GameUI
         gameState={gameState}
         onStartGame={handleStartGame}
+        onPause={() => gameRef.current?.pause()}
+        onResume={() => gameRef.current?.resume()}
+        onShareReplay={handleShareReplay}
+        levels={levels}
+        unlockedLevels={unlockedLevels}
+        currentLevelIndex={levels.findIndex(level => level.id === currentLevelId)}
+        showLevelSelect={showLevelSelect}
+        onSelectLevel={handleSelectLevel}
+        onShowLevels={() => setShowLevelSelect(true)}
+        muted={muted}
+        onToggleMute={handleToggleMute}
+        themeLabel={THEMES[theme].label}
+        onCycleTheme={handleCycleTheme}
+        ballColor={(color) => themeBallColor(THEMES[theme], color)}
         gameTimer={gameTimer}
         gameProgress={gameProgress}
+        ringEscape={ringEscape}
         gameConfig={gameConfig}
+        score={score}
+        scoreAward={scoreAward}
+        effects={effects}
+        objectives={objectives}
+        leaderboard={leaderboardEntries}
+        canSubmitScore={canSubmitScore}
+        submittedRank={submittedRank}
+        playerName={playerName}
+        onPlayerNameChange={setPlayerName}
+        onSubmitScore={handleSubmitScore}
       />
     </div>
   );
@@ -1,19 +1,109 @@
 import React from 'react';
+import { Lock, Palette, Pause, Volume2, VolumeX } from 'lucide-react';
 import { GameState } from '../types/GameState';
 import { Button } from './ui/button';
 
+interface LevelSummary {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+interface ScoreEntry {
+  name: string;
+  score: number;
+}
+
+interface ObjectiveEntry {
+  type: string;
+  status: 'pending' | 'complete' | 'failed';
+  current?: number;
+  target?: number;
+  color?: number;
+  minBalls?: number;
+  hits?: { current: number; max: number };
+  children?: ObjectiveEntry[];
+}
+
 interface GameUIProps {
   gameState: GameState;
   onStartGame: () => void;
+  onPause?: () => void;
+  onResume?: () => void;
+  onShareReplay?: () => void;
+  levels?: LevelSummary[];
+  unlockedLevels?: number;
+  currentLevelIndex?: number;
+  showLevelSelect?: boolean;
+  onSelectLevel?: (index: number) => void;
+  onShowLevels?: () => void;
+  muted?: boolean;
+  onToggleMute?: () => void;
+  /** Name of the current visual theme */
+  themeLabel?: string;
+  onCycleTheme?: () => void;
+  /** Color the current theme draws a ball color with */
+  ballColor?: (color: number) => number;
   gameTimer?: number;
-  gameProgress?: { escaped: number; target: number };
+  gameProgress?: { escaped: number; target: number; rings?: number[] };
+  /** Most recent ball clearing a ring, shown briefly in the HUD */
+  ringEscape?: { ringIndex: number; ringCount: number } | null;
   gameConfig?: {
     targetEscapes: number;
     timeLimit: number;
   };
+  score?: number;
+  /** Most recent escape award, shown briefly in the HUD */
+  scoreAward?: { reason: string; points: number; multiplier: number } | null;
+  /** Progress towards the round's objectives */
+  objectives?: ObjectiveEntry | null;
+  /** Power-up effects currently running, with seconds left */
+  effects?: { kind: string; remaining: number }[];
+  /** Best scores of the current level, highest first */
+  leaderboard?: ScoreEntry[];
+  /** The finished round's score makes the leaderboard and hasn't been saved yet */
+  canSubmitScore?: boolean;
+  /** Leaderboard position of the saved score, or -1 if it didn't make it */
+  submittedRank?: number | null;
+  playerName?: string;
+  onPlayerNameChange?: (name: string) => void;
+  onSubmitScore?: () => void;
 }
 
-export default function GameUI({ gameState, onStartGame, gameTimer = 0, gameProgress, gameConfig }: GameUIProps) {
+export default function GameUI({
+  gameState,
+  onStartGame,
+  onPause,
+  onResume,
+  onShareReplay,
+  levels = [],
+  unlockedLevels = 1,
+  currentLevelIndex = -1,
+  showLevelSelect = false,
+  onSelectLevel,
+  onShowLevels,
+  muted = false,
+  onToggleMute,
+  themeLabel,
+  onCycleTheme,
+  ballColor = (color) => color,
+  gameTimer = 0,
+  gameProgress,
+  ringEscape,
+  gameConfig,
+  score = 0,
+  scoreAward,
+  effects = [],
+  objectives,
+  leaderboard = [],
+  canSubmitScore = false,
+  submittedRank,
+  playerName = '',
+  onPlayerNameChange,
+  onSubmitScore
+}: GameUIProps) {
+  const hasNextLevel = currentLevelIndex >= 0 && currentLevelIndex + 1 < levels.length;
+
   // Render different UI based on game state
   const renderStartScreen = () => (
 
@@ -32,35 +122,246 @@ export default function GameUI({ gameState, onStartGame, gameTimer = 0, gameProg
     </div>
   );
 
+  const renderLevelSelect = () => (
+    <div className="absolute inset-0 flex flex-col items-center justify-center z-50 pointer-events-none bg-(--hud-panel)">
+      <div className="pointer-events-auto text-center text-(--hud-text) space-y-6 px-6">
+        <h1 className="text-4xl font-bold mb-4">Select Level</h1>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-w-xl">
+          {levels.map((level, index) => {
+            const locked = index >= unlockedLevels;
+            return (
+              <Button
+                key={level.id}
+                onClick={() => onSelectLevel?.(index)}
+                disabled={locked}
+                variant={index === currentLevelIndex ? "default" : "secondary"}
+                size="custom"
+                className="flex-col items-start text-left whitespace-normal p-4 h-auto min-w-56 shadow-lg transition-all duration-200 hover:scale-105"
+              >
+                <span className="flex items-center gap-2 text-lg font-bold">
+                  {locked && <Lock />}
+                  {index + 1}. {level.name}
+                </span>
+                {level.description && (
+                  <span className="text-sm font-normal opacity-80">{level.description}</span>
+                )}
+              </Button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderLevelsButton = () => onShowLevels && levels.length > 0 && (
+    <Button
+      onClick={onShowLevels}
+      variant="secondary"
+      size="lg"
+      className="text-lg font-bold rounded-full shadow-lg"
+    >
+      Levels
+    </Button>
+  );
+
+  // A plain escape target is already shown by the Escaped counter
+  const hasCustomObjectives = !!objectives && objectives.type !== 'escape';
+
+  const objectiveLabel = (objective: ObjectiveEntry) => {
+    const count = objective.target ?? 0;
+    switch (objective.type) {
+      case 'escape':
+        return `Escape ${count} balls`;
+      case 'escapeColor':
+        return (
+          <>
+            Escape {count}{' '}
+            <span
+              className="inline-block w-3 h-3 rounded-full align-middle"
+              style={{ backgroundColor: `#${ballColor(objective.color ?? 0).toString(16).padStart(6, '0')}` }}
+            />{' '}
+            balls
+          </>
+        );
+      case 'survive':
+        return `Keep ${objective.minBalls} balls inside for ${count}s`;
+      case 'noKills':
+        return "Don't lose a ball";
+      case 'escapeBeforeHits':
+        return `Escape ${count} balls within ${objective.hits?.max} hits (${objective.hits?.current} used)`;
+      case 'all':
+        return 'All of:';
+      case 'any':
+        return 'Any of:';
+      default:
+        return objective.type;
+    }
+  };
+
+  const statusClassName = {
+    pending: 'text-(--hud-text)',
+    complete: 'text-(--hud-escaped)',
+    failed: 'text-red-400 line-through'
+  };
+
+  const renderObjective = (objective: ObjectiveEntry, key: number = 0): React.ReactNode => (
+    <li key={key}>
+      <div className={`flex items-center justify-between gap-4 ${statusClassName[objective.status]}`}>
+        <span>{objective.status === 'complete' ? '✓ ' : ''}{objectiveLabel(objective)}</span>
+        {objective.target !== undefined && (
+          <span className="font-bold">{objective.current} / {objective.target}</span>
+        )}
+      </div>
+      {objective.children && (
+        <ul className="pl-4 space-y-1 mt-1">
+          {objective.children.map((child, index) => renderObjective(child, index))}
+        </ul>
+      )}
+    </li>
+  );
+
+  const renderObjectives = () => objectives && (
+    <ul className="space-y-1 text-sm text-left">
+      {renderObjective(objectives)}
+    </ul>
+  );
+
+  const effectLabels: Record<string, string> = {
+    widenGap: 'Wide Gap',
+    slowSpin: 'Slow Spin',
+    freezeTimer: 'Frozen Timer'
+  };
+
   const renderGameHUD = () => (
     <div className="absolute top-6 left-6 z-50 pointer-events-none">
-      <div className="bg-black/80 backdrop-blur-sm text-white p-4 rounded-lg shadow-lg border border-white/20">
+      <div className="bg-(--hud-panel) backdrop-blur-sm text-(--hud-text) p-4 rounded-lg shadow-lg border border-(--hud-border)">
         <div className="flex items-center space-x-6">
           <div className="text-center">
-            <div className="text-sm text-gray-300">Escaped</div>
-            <div className="text-xl font-bold text-green-400">
-              {gameProgress?.escaped || 0} / {gameProgress?.target || 10}
+            <div className="text-sm text-(--hud-label)">Escaped</div>
+            <div className="text-xl font-bold text-(--hud-escaped)">
+              {gameProgress?.escaped || 0}{!hasCustomObjectives && ` / ${gameProgress?.target || 10}`}
             </div>
           </div>
           <div className="text-center">
-            <div className="text-sm text-gray-300">Time</div>
-            <div className="text-xl font-bold text-blue-400">{gameTimer}s</div>
+            <div className="text-sm text-(--hud-label)">Time</div>
+            <div className="text-xl font-bold text-(--hud-time)">{gameTimer}s</div>
+          </div>
+          <div className="text-center">
+            <div className="text-sm text-(--hud-label)">Score</div>
+            <div className="text-xl font-bold text-(--hud-score)">{score}</div>
           </div>
         </div>
+        {gameProgress?.rings && gameProgress.rings.length > 1 && (
+          <div className="flex items-center space-x-4 mt-3 pt-3 border-t border-(--hud-border) text-sm">
+            {gameProgress.rings.map((count, index) => (
+              <div key={index} className="text-center">
+                <div className="text-(--hud-label)">Ring {index + 1}</div>
+                <div className="font-bold">{count}</div>
+              </div>
+            ))}
+          </div>
+        )}
+        {hasCustomObjectives && (
+          <div className="mt-3 pt-3 border-t border-(--hud-border)">
+            {renderObjectives()}
+          </div>
+        )}
+        {effects.length > 0 && (
+          <div className="flex items-center space-x-2 mt-3 pt-3 border-t border-(--hud-border) text-sm">
+            {effects.map(effect => (
+              <div key={effect.kind} className="px-2 py-1 rounded bg-(--hud-border) text-(--hud-text)">
+                {effectLabels[effect.kind] ?? effect.kind} <span className="font-bold">{Math.ceil(effect.remaining)}s</span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
+      {ringEscape && ringEscape.ringCount > 1 && (
+        <div className="mt-3 text-lg font-bold text-(--hud-score) drop-shadow">
+          {ringEscape.ringIndex === ringEscape.ringCount - 1 ? 'Escaped!' : `Ring ${ringEscape.ringIndex + 1} cleared`}
+        </div>
+      )}
+      {scoreAward && (
+        <div className="mt-3 text-lg font-bold text-(--hud-score) drop-shadow">
+          +{scoreAward.points}
+          {scoreAward.reason === 'firstBounce' && ' First bounce!'}
+          {scoreAward.reason === 'escape' && scoreAward.multiplier > 1 && ` Combo x${scoreAward.multiplier}`}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderShareReplayButton = () => onShareReplay && (
+    <div>
+      <Button
+        onClick={onShareReplay}
+        variant="ghost"
+        size="sm"
+        className="text-(--hud-text) opacity-80 hover:opacity-100 hover:bg-white/10"
+      >
+        Copy Replay
+      </Button>
+    </div>
+  );
+
+  const renderScoreSummary = () => (
+    <div className="space-y-3">
+      <p className="text-2xl">
+        Score <span className="font-bold text-(--hud-score)">{score}</span>
+        {submittedRank === 0 && <span className="ml-2 text-(--hud-escaped) font-bold">New best!</span>}
+      </p>
+      {canSubmitScore && onSubmitScore && (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            onSubmitScore();
+          }}
+          className="flex items-center justify-center gap-2"
+        >
+          <input
+            value={playerName}
+            onChange={(event) => onPlayerNameChange?.(event.target.value)}
+            placeholder="Your name"
+            maxLength={16}
+            aria-label="Your name"
+            className="px-3 py-2 rounded-md bg-(--hud-panel) border border-(--hud-border) text-(--hud-text) placeholder:text-(--hud-label) focus:outline-none focus:border-(--hud-text)"
+          />
+          <Button type="submit" variant="secondary">
+            Save Score
+          </Button>
+        </form>
+      )}
+      {leaderboard.length > 0 && (
+        <ol className="mx-auto max-w-xs text-left text-sm bg-(--hud-panel) border border-(--hud-border) rounded-lg p-3 space-y-1">
+          {leaderboard.slice(0, 5).map((entry, index) => (
+            <li
+              key={index}
+              className={`flex justify-between gap-4 ${index === submittedRank ? 'text-(--hud-score) font-bold' : 'text-(--hud-label)'}`}
+            >
+              <span>{index + 1}. {entry.name}</span>
+              <span>{entry.score}</span>
+            </li>
+          ))}
+        </ol>
+      )}
     </div>
   );
 
   const renderGameOverScreen = () => (
-    <div className="absolute inset-0 flex flex-col items-center justify-center z-50 pointer-events-none bg-black/50">
-      <div className="pointer-events-auto text-center text-white space-y-6">
+    <div className="absolute inset-0 flex flex-col items-center justify-center z-50 pointer-events-none bg-(--hud-panel)">
+      <div className="pointer-events-auto text-center text-(--hud-text) space-y-6">
         <h1 className="text-4xl font-bold text-red-400 mb-4">Game Over!</h1>
         <div className="space-y-2">
-          <p className="text-xl">Time's up!</p>
-          <p className="text-lg">
-            You escaped <span className="font-bold text-yellow-300">{gameProgress?.escaped || 0}</span> out of <span className="font-bold text-white">{gameProgress?.target || 10}</span> balls
-          </p>
+          <p className="text-xl">{objectives?.status === 'failed' ? 'Objective failed!' : "Time's up!"}</p>
+          {hasCustomObjectives ? (
+            <div className="inline-block border border-(--hud-border) rounded-lg p-4">{renderObjectives()}</div>
+          ) : (
+            <p className="text-lg">
+              You escaped <span className="font-bold text-(--hud-escaped)">{gameProgress?.escaped || 0}</span> out of <span className="font-bold text-(--hud-text)">{gameProgress?.target || 10}</span> balls
+            </p>
+          )}
         </div>
+        {renderScoreSummary()}
         <Button
           onClick={onStartGame}
           size="lg"
@@ -68,51 +369,159 @@ export default function GameUI({ gameState, onStartGame, gameTimer = 0, gameProg
         >
           Try Again
         </Button>
+        <div>{renderLevelsButton()}</div>
+        {renderShareReplayButton()}
       </div>
     </div>
   );
 
   const renderWinScreen = () => (
-    <div className="absolute inset-0 flex flex-col items-center justify-center z-50 pointer-events-none bg-black/50">
-      <div className="pointer-events-auto text-center text-white space-y-6">
-        <h1 className="text-4xl font-bold text-green-400 mb-4">Victory!</h1>
+    <div className="absolute inset-0 flex flex-col items-center justify-center z-50 pointer-events-none bg-(--hud-panel)">
+      <div className="pointer-events-auto text-center text-(--hud-text) space-y-6">
+        <h1 className="text-4xl font-bold text-(--hud-escaped) mb-4">Victory!</h1>
         <div className="space-y-2">
           <p className="text-xl">Congratulations!</p>
+          {hasCustomObjectives ? (
+            <div className="inline-block border border-(--hud-border) rounded-lg p-4">{renderObjectives()}</div>
+          ) : (
+            <p className="text-lg">
+              You escaped all <span className="font-bold text-(--hud-escaped)">{gameProgress?.target || 10}</span> balls
+            </p>
+          )}
           <p className="text-lg">
-            You escaped all <span className="font-bold text-yellow-300">{gameProgress?.target || 10}</span> balls
-          </p>
-          <p className="text-lg">
-            with <span className="font-bold text-blue-300">{gameTimer}</span> seconds remaining!
+            with <span className="font-bold text-(--hud-time)">{gameTimer}</span> seconds remaining!
           </p>
         </div>
-        <Button
-          onClick={onStartGame}
-          size="lg"
-          className="text-2xl font-bold px-16 py-8 rounded-full shadow-lg hover:shadow-xl transition-all duration-200 hover:scale-105"
-        >
-          Play Again
-        </Button>
+        {renderScoreSummary()}
+        {hasNextLevel ? (
+          <Button
+            onClick={() => onSelectLevel?.(currentLevelIndex + 1)}
+            size="lg"
+            className="text-2xl font-bold px-16 py-8 rounded-full shadow-lg hover:shadow-xl transition-all duration-200 hover:scale-105"
+          >
+            Next Level
+          </Button>
+        ) : (
+          <Button
+            onClick={onStartGame}
+            size="lg"
+            className="text-2xl font-bold px-16 py-8 rounded-full shadow-lg hover:shadow-xl transition-all duration-200 hover:scale-105"
+          >
+            Play Again
+          </Button>
+        )}
+        <div>{renderLevelsButton()}</div>
+        {renderShareReplayButton()}
       </div>
     </div>
   );
 
-  // Render based on game state
-  switch (gameState) {
-    case GameState.LOADING:
-      return renderStartScreen();
-    case GameState.PLAYING:
-      return renderGameHUD();
-    case GameState.GAME_OVER:
-      return renderGameOverScreen();
-    case GameState.WIN:
-      return renderWinScreen();
-    default:
-      return (
-        <div className="absolute inset-0 flex items-center justify-center z-50 bg-purple-600/90 text-white text-2xl">
-          <div className="bg-white/10 p-8 rounded-2xl">
-            <p>🤔 Unknown State: {gameState}</p>
+  const renderPauseOverlay = () => (
+    <>
+      {renderGameHUD()}
+      <div className="absolute inset-0 flex flex-col items-center justify-center z-50 pointer-events-none bg-(--hud-panel)">
+        <div className="pointer-events-auto text-center text-(--hud-text) space-y-6">
+          <h1 className="text-4xl font-bold mb-4">Paused</h1>
+          <Button
+            onClick={onResume}
+            size="lg"
+            className="text-2xl font-bold px-16 py-8 rounded-full shadow-lg hover:shadow-xl transition-all duration-200 hover:scale-105"
+          >
+            Resume
+          </Button>
+          <div>
+            <Button
+              onClick={onStartGame}
+              variant="secondary"
+              size="lg"
+              className="text-lg font-bold rounded-full shadow-lg"
+            >
+              Restart
+            </Button>
           </div>
+          <div>{renderLevelsButton()}</div>
         </div>
-      );
-  }
-}
\ No newline at end of file
+      </div>
+    </>
+  );
+
+  const renderPauseButton = () => onPause && gameState === GameState.PLAYING && (
+    <div className="absolute top-6 right-20 z-[60] pointer-events-auto">
+      <Button
+        onClick={onPause}
+        variant="ghost"
+        size="icon"
+        aria-label="Pause"
+        className="text-(--hud-text) opacity-80 hover:opacity-100 hover:bg-white/10"
+      >
+        <Pause />
+      </Button>
+    </div>
+  );
+
+  const renderMuteToggle = () => onToggleMute && (
+    <div className="absolute top-6 right-6 z-[60] pointer-events-auto">
+      <Button
+        onClick={onToggleMute}
+        variant="ghost"
+        size="icon"
+        aria-label={muted ? "Unmute sound" : "Mute sound"}
+        className="text-(--hud-text) opacity-80 hover:opacity-100 hover:bg-white/10"
+      >
+        {muted ? <VolumeX /> : <Volume2 />}
+      </Button>
+    </div>
+  );
+
+  const renderThemeButton = () => onCycleTheme && (
+    <div className="absolute top-6 right-34 z-[60] pointer-events-auto">
+      <Button
+        onClick={onCycleTheme}
+        variant="ghost"
+        size="icon"
+        aria-label={`Theme: ${themeLabel}`}
+        title={`Theme: ${themeLabel}`}
+        className="text-(--hud-text) opacity-80 hover:opacity-100 hover:bg-white/10"
+      >
+        <Palette />
+      </Button>
+    </div>
+  );
+
+  const renderScreen = () => {
+    if (showLevelSelect && gameState !== GameState.PLAYING && levels.length > 0) {
+      return renderLevelSelect();
+    }
+
+    // Render based on game state
+    switch (gameState) {
+      case GameState.LOADING:
+        return levels.length > 0 ? renderLevelSelect() : renderStartScreen();
+      case GameState.PLAYING:
+        return renderGameHUD();
+      case GameState.PAUSED:
+        return renderPauseOverlay();
+      case GameState.GAME_OVER:
+        return renderGameOverScreen();
+      case GameState.WIN:
+        return renderWinScreen();
+      default:
+        return (
+          <div className="absolute inset-0 flex items-center justify-center z-50 bg-purple-600/90 text-white text-2xl">
+            <div className="bg-white/10 p-8 rounded-2xl">
+              <p>🤔 Unknown State: {gameState}</p>
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <>
+      {renderScreen()}
+      {renderPauseButton()}
+      {renderMuteToggle()}
+      {renderThemeButton()}
+    </>
+  );
+}
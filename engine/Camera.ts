@@ -0,0 +1,228 @@
+import * as PIXI from "pixi.js";
+import type { CameraConfig, Prefab } from "./objects";
+import { scaleManager } from "./scale";
+
+/**
+ * View transform over the world. Everything rendered in physics space lives
+ * in `container`, which the camera scales and moves so the world bounds fit
+ * the screen at zoom 1. Graphics are drawn at the scale manager's PPM;
+ * resizing, zooming, panning and shaking only change the container transform.
+ *
+ * Zoom and pan ease toward their targets on the render clock, so they never
+ * affect the simulation.
+ */
+export class Camera {
+  readonly container = new PIXI.Container();
+  private screen = { width: 0, height: 0 };
+  private world = { width: 1, height: 1 };
+  private zoom = 1;
+  private targetZoom = 1;
+  private center = { x: 0, y: 0 };
+  private targetCenter = { x: 0, y: 0 };
+  private target: Prefab | null = null;
+  /** Zoom to return to once the followed object is gone */
+  private zoomBeforeFollow = 1;
+  /** Shake strength (0-1); the offset grows with its square */
+  private trauma = 0;
+  private time = 0;
+
+  constructor(private config: CameraConfig) {}
+
+  /**
+   * Set the screen size in CSS pixels
+   */
+  resize(width: number, height: number) {
+    this.screen = { width, height };
+    this.applyTransform({ x: 0, y: 0 });
+  }
+
+  /**
+   * Set the size (physics units) of the world bounds to fit at zoom 1
+   */
+  setWorldSize(width: number, height: number) {
+    this.world = { width, height };
+    scaleManager.setWorldSize(width, height);
+  }
+
+  /**
+   * Pixels per meter on screen, including the fit to the screen and zoom
+   */
+  getEffectivePPM(): number {
+    return scaleManager.calculateOptimalPPM(this.screen.width, this.screen.height) * this.zoom;
+  }
+
+  getZoom(): number {
+    return this.zoom;
+  }
+
+  /**
+   * Whether zooming has come to rest
+   */
+  isSettled(): boolean {
+    return Math.abs(this.zoom / this.targetZoom - 1) < 0.01;
+  }
+
+  /**
+   * Ease toward a zoom level, or jump there with `immediate`
+   */
+  setZoom(zoom: number, immediate: boolean = false) {
+    this.targetZoom = Math.max(this.config.minZoom, Math.min(this.config.maxZoom, zoom));
+    this.targetCenter = this.clampCenter(this.targetCenter, this.targetZoom);
+    if (immediate) {
+      this.zoom = this.targetZoom;
+      this.center = { ...this.targetCenter };
+    }
+  }
+
+  /**
+   * Zoom by `factor` while keeping the world point under a screen point in place
+   */
+  zoomAt(screenX: number, screenY: number, factor: number) {
+    const anchor = this.screenToWorld(screenX, screenY);
+    const previous = this.targetZoom;
+    this.setZoom(previous * factor);
+
+    const ratio = previous / this.targetZoom;
+    this.targetCenter = this.clampCenter({
+      x: anchor.x - (anchor.x - this.targetCenter.x) * ratio,
+      y: anchor.y - (anchor.y - this.targetCenter.y) * ratio
+    }, this.targetZoom);
+  }
+
+  /**
+   * Ease toward looking at a point in physics coordinates
+   */
+  panTo(x: number, y: number, immediate: boolean = false) {
+    this.targetCenter = this.clampCenter({ x, y }, this.targetZoom);
+    if (immediate) {
+      this.center = { ...this.targetCenter };
+    }
+  }
+
+  /**
+   * Keep an object in view, zooming in on it; `null` returns to the previous view
+   */
+  follow(prefab: Prefab | null) {
+    if (prefab && !this.target) {
+      this.zoomBeforeFollow = this.targetZoom;
+      this.setZoom(this.config.followZoom);
+    } else if (!prefab && this.target) {
+      this.setZoom(this.zoomBeforeFollow);
+      this.panTo(0, 0);
+    }
+    this.target = prefab;
+  }
+
+  getFollowTarget(): Prefab | null {
+    return this.target;
+  }
+
+  /**
+   * Add screen shake trauma (0-1)
+   */
+  shake(amount: number) {
+    if (!this.config.shake.enabled) return;
+    this.trauma = Math.min(1, this.trauma + amount);
+  }
+
+  /**
+   * Snap back to the whole world without shake or a follow target
+   */
+  reset() {
+    this.target = null;
+    this.trauma = 0;
+    this.setZoom(1, true);
+    this.panTo(0, 0, true);
+  }
+
+  /**
+   * Advance easing and shake by `dt` seconds of real time and apply the transform
+   */
+  update(dt: number) {
+    this.time += dt;
+
+    if (this.target) {
+      const p = this.target.body.translation();
+      this.targetCenter = this.clampCenter(p, this.targetZoom);
+    }
+
+    // Frame-rate independent exponential easing; zoom eases in log space
+    const k = 1 - Math.exp(-this.config.smoothing * dt);
+    this.zoom *= Math.pow(this.targetZoom / this.zoom, k);
+    this.center.x += (this.targetCenter.x - this.center.x) * k;
+    this.center.y += (this.targetCenter.y - this.center.y) * k;
+
+    // Smooth pseudo-noise keeps the shake from looking like flicker
+    const magnitude = this.config.shake.maxOffset * this.trauma * this.trauma;
+    const offset = {
+      x: magnitude * Math.sin(this.time * 47) * Math.cos(this.time * 29),
+      y: magnitude * Math.sin(this.time * 53 + 1) * Math.cos(this.time * 31)
+    };
+    this.trauma = Math.max(0, this.trauma - this.config.shake.decay * dt);
+
+    this.applyTransform(offset);
+  }
+
+  /**
+   * Convert a point in canvas CSS pixels to physics coordinates
+   */
+  screenToWorld(x: number, y: number): { x: number; y: number } {
+    const ppm = this.getEffectivePPM();
+    return {
+      x: this.center.x + (x - this.screen.width / 2) / ppm,
+      y: this.center.y + (y - this.screen.height / 2) / ppm
+    };
+  }
+
+  /**
+   * Convert physics coordinates to canvas CSS pixels
+   */
+  worldToScreen(x: number, y: number): { x: number; y: number } {
+    const ppm = this.getEffectivePPM();
+    return {
+      x: this.screen.width / 2 + (x - this.center.x) * ppm,
+      y: this.screen.height / 2 + (y - this.center.y) * ppm
+    };
+  }
+
+  /**
+   * Visible area in physics units
+   */
+  getVisibleArea(): { width: number; height: number } {
+    const ppm = this.getEffectivePPM();
+    return { width: this.screen.width / ppm, height: this.screen.height / ppm };
+  }
+
+  destroy() {
+    this.target = null;
+    this.container.destroy({ children: true });
+  }
+
+  /**
+   * Keep the view inside the world bounds when zoomed in; at zoom 1 or less it stays centered
+   */
+  private clampCenter(point: { x: number; y: number }, zoom: number): { x: number; y: number } {
+    const slack = Math.max(0, 1 - 1 / zoom) / 2;
+    const maxX = this.world.width * slack;
+    const maxY = this.world.height * slack;
+    return {
+      x: Math.max(-maxX, Math.min(maxX, point.x)),
+      y: Math.max(-maxY, Math.min(maxY, point.y))
+    };
+  }
+
+  /**
+   * Position and scale the container; `offset` is the shake in physics units
+   */
+  private applyTransform(offset: { x: number; y: number }) {
+    const ppm = this.getEffectivePPM();
+    // Graphics are drawn at the scale manager's PPM
+    const scale = ppm / scaleManager.getPPM();
+
+    this.container.scale.set(scale);
+    this.container.position.set(
+      this.screen.width / 2 + (offset.x - this.center.x) * ppm,
+      this.screen.height / 2 + (offset.y - this.center.y) * ppm
+    );
+  }
+}
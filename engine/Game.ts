@@ -1,208 +1,82 @@
-import * as PIXI from "pixi.js";
+import { Simulation, type GameplayEvents } from "./Simulation";
+import { EventEmitter } from "./events";
 import type RAPIER from "@dimforge/rapier2d-deterministic";
-import { Ball, Ring, KillBoundary, Prefab, type BallConfig, type RingConfig, type BallSpawnConfig, type KillBoundaryConfig } from "./objects";
-import { m2p, scaleManager } from "./scale";
-import { DebugUI } from "./debug/DebugUI";
-import { DebugRenderer } from "./debug/DebugRenderer";
-import { ParticleManager } from "./ParticleManager";
+import { GameRenderer } from "./GameRenderer";
+import { GAME_CONFIG, type GameConfig } from "./config";
+import { ReplayPlayer, ReplayRecorder, type Replay } from "./replay";
+import type { SimulationState } from "./SimulationState";
+import type { ActiveEffect } from "./PowerUpEffects";
+import type { ObjectiveProgress } from "./objectives";
+import { InputManager } from "./input/InputManager";
+import { AudioManager } from "./audio/AudioManager";
+import { levelToConfig, type LevelDefinition } from "./levels";
+import { themeManager, type ThemeName } from "./themes";
 import { GameState } from "../types/GameState";
 
-// Centralized Game Configuration
-const GAME_CONFIG = {
-  // Debug/Production mode toggle
-  debug: process.env.NODE_ENV === 'development',
-
-  physics: {
-    gravity: { x: 0, y: 20 },
-    fixedDt: 1/120
-  },
-
-  gameplay: {
-    maxBalls: 10,
-    targetEscapes: 10,
-    timeLimit: 30 // seconds
-  },
-
-  // Color palette for random ball colors
-  ballColors: [
-    0xFF3333,
-    0x33ff33,
-    0x3333ff,
-    0xA8F8FF,
-    0xFF33F1,
-    0x0B7575,
-    0xff8833,
-    0x8833ff
-  ],
-
-  ball: {
-    radius: 0.5,
-    restitution: 1.0,
-    friction: 0.1,
-    color: 0xff3333,
-    trail: {
-      enabled: false,
-      maxLength: 7,
-      fadeAlpha: 0.0,
-      width: 1.0,
-      updateInterval: 1.0 // ~60fps trail updates
-    },
-    glow: {
-      enabled: false,
-      distance: 10,
-      outerStrength: 1.2,
-      quality: 0.5
-    }
-  } as BallConfig,
-
-  ring: {
-    radius: 5.5,
-    thickness: 0.3,
-    gapAngle: Math.PI / 6.0, // 15 degrees
-    gapCenterAngle: 3/2 * Math.PI, // Gap center at top (12 o'clock position)
-    // gapCenterAngle: Math.PI / 2, // Gap center at top (12 o'clock position)
-    segments: 256,
-    spinSpeed: 1.0,
-    restitution: 0.8,
-    friction: 1.0,
-    color: 0xFFFFFF,
-    escapeSensorOffset: 0.0,
-    escapeSensorThickness: 0.5,
-    glow: {
-      enabled: false,
-      distance: 7,
-      outerStrength: 1.5,
-      color: 0xFFFFFF,
-      quality: 0.5
-    },
-    particles: {
-      enabled: true,
-      color: 0xffffff, // Uncomment to use fixed dust color, comment out to use ball color
-      dustIntensity: 1.0, // Normal dust intensity
-      cooldownDuration: 0.1 // Cooldown duration for particle emission
-    }
-  } as RingConfig,
-
-  spawning: {
-    initial: {
-      position: { x: 0, y: 0 },
-      velocity: { magnitude: 5, angle: 0 },
-      angleRange: { min: Math.PI/4, max: 3*Math.PI/4 }
-    },
-    onRingEscape: {
-      count: 2,
-      position: { x: 0, y: 0 },
-      velocity: { magnitude: 5, angle: 0 },
-      angleRange: { min: Math.PI/4, max: 3*Math.PI/4 }
-    }
-  },
-
-  killBoundary: {
-    thickness: 1.0,
-    offset: 1.0
-  } as KillBoundaryConfig
-} as const;
-
+/** Longest real frame time fed to the accumulator, so a stalled tab can't spiral into catch-up steps */
+const MAX_FRAME_TIME = 0.25;
+/** Range accepted by `setTimeScale()` */
+const MIN_TIME_SCALE = 0.1;
+const MAX_TIME_SCALE = 4;
+
+/**
+ * Browser entry point: loads Rapier, wires a headless `Simulation` to a
+ * `GameRenderer` and drives both from the Pixi ticker with a fixed-step
+ * accumulator.
+ */
 export class Game {
-  app!: PIXI.Application;
-  world!: RAPIER.World;
-  objects: Prefab[] = [];
-  balls: Ball[] = [];
-  ring!: Ring;
-  killBoundary!: KillBoundary;
+  simulation!: Simulation;
+  renderer!: GameRenderer;
   R!: typeof RAPIER;
-  debugUI?: DebugUI;
-  debugRenderer?: DebugRenderer;
-  particleManager!: ParticleManager;
-  totalBallsSpawned: number = 0;
-  escapedBallsCount: number = 0;
-  private currentColorIndex: number = 0;
-  private resizeHandler!: () => void;
-
-  // Game state management
-  private gameState: GameState = GameState.LOADING;
-  public onGameStateChange?: (state: GameState) => void;
-
-  // Game timer and progress
-  private gameTimer: number = 0;
-  private gameStartTime: number = 0;
+  private replayRecorder!: ReplayRecorder;
+  private replayPlayer?: ReplayPlayer;
+  private input!: InputManager;
+  private audio?: AudioManager;
+  private muted = false;
+  private theme: ThemeName = themeManager.getName();
+  /** Simulated seconds per real second; the fixed dt never changes */
+  private timeScale = 1;
+  /** Configuration of the current level */
+  private config: GameConfig = GAME_CONFIG;
+  /** Removes the forwarding listeners on the current simulation */
+  private unforwardEvents?: () => void;
+
+  /**
+   * Gameplay events of whichever simulation is running (live round, level or
+   * replay); subscriptions survive switching between them
+   */
+  readonly events = new EventEmitter<GameplayEvents>();
 
   async init(container: HTMLElement) {
     try {
       this.R = await import("@dimforge/rapier2d-deterministic");
 
-      this.world = new this.R.World(GAME_CONFIG.physics.gravity);
-      this.world.integrationParameters.dt = GAME_CONFIG.physics.fixedDt;
-
-      this.app = new PIXI.Application();
-      await this.app.init({
-        resizeTo: window,
-        antialias: true,
-        background: 0x333333,
-        autoDensity: true,
-        resolution: Math.max(2, window.devicePixelRatio),
-      });
-      container.appendChild(this.app.canvas);
-
-      // Initialize responsive scaling
-      this.initializeResponsiveScaling();
-
-      // Log renderer type for debugging
-      const gl = (this.app.renderer as any).gl;
-      let rendererType = 'Unknown';
-      if (this.app.renderer.type === PIXI.RendererType.WEBGL) {
-        if (gl && gl.constructor.name === 'WebGL2RenderingContext') {
-          rendererType = 'WebGL2';
-        } else if (gl && gl.constructor.name === 'WebGLRenderingContext') {
-          rendererType = 'WebGL1';
-        } else {
-          rendererType = 'WebGL (Unknown Version)';
-        }
-      } else {
-        rendererType = 'Canvas/Other';
-      }
-      console.log(`PixiJS Renderer: ${rendererType}`);
-      console.log(`Responsive scaling initialized - PPM: ${scaleManager.getPPM()}`);
-
-      // Center the stage so (0,0) physics coordinates appear at screen center
-      this.app.stage.position.set(this.app.screen.width / 2, this.app.screen.height / 2);
+      this.renderer = new GameRenderer();
+      await this.renderer.init(container, GAME_CONFIG.debug);
+      this.renderer.setTheme(this.theme);
 
-      // Initialize debug tools only in debug mode
-      if (GAME_CONFIG.debug) {
-        this.debugUI = new DebugUI(this.world, this.app);
-        this.debugRenderer = new DebugRenderer(this.world, this.app.stage);
-      }
-
-      this.particleManager = new ParticleManager(this.app.stage);
-
-      // Create ring arena
-      this.ring = new Ring(this.world, this.R, GAME_CONFIG.ring);
-      this.ring.setParticleManager(this.particleManager);
-      this.objects.push(this.ring);
-
-      // Create kill boundaries
-      this.killBoundary = new KillBoundary(
-        this.world,
-        this.R,
-        GAME_CONFIG.killBoundary,
-        this.app.screen.width,
-        this.app.screen.height
+      // Don't spawn initial ball automatically - wait for startGame() to be called
+      this.setSimulation(this.createSimulation(this.config));
+
+      // Player input steers the ring; a replay brings its own input
+      this.input = new InputManager(
+        this.renderer.app.canvas,
+        (x, y) => this.renderer.screenToWorld(x, y),
+        (command) => {
+          // Input while paused is dropped, so the ring doesn't jump on resume
+          if (!this.replayPlayer && this.simulation.getGameState() !== GameState.PAUSED) {
+            this.simulation.applyCommand(command);
+          }
+        }
       );
-      this.objects.push(this.killBoundary);
-
-      // Set up ring escape handler (for spawning)
-      this.ring.setRingEscapeHandler((escapedBall) => {
-        this.handleBallRingEscape(escapedBall);
-      });
 
-      // Set up kill boundary handler (for destruction)
-      this.killBoundary.setKillHandler((killedBall) => {
-        this.handleBallKill(killedBall);
-      });
+      // Sound effects follow gameplay events
+      this.audio = new AudioManager(GAME_CONFIG.audio);
+      this.audio.setMuted(this.muted);
+      this.audio.attach(this.events);
 
-      // Don't spawn initial ball automatically - wait for startGame() to be called
-
-      this.objects.forEach(obj => this.app.stage.addChild(obj.graphic));
+      // Leaving the tab freezes the round
+      document.addEventListener("visibilitychange", this.handleVisibilityChange);
 
       this.startLoop();
     } catch (error) {
@@ -210,357 +84,243 @@ export class Game {
     }
   }
 
+  private createSimulation(config: GameConfig): Simulation {
+    return new Simulation(this.R, config);
+  }
+
   /**
-   * Initialize responsive scaling system and set up resize handling
+   * Swap in a new simulation, rebinding the renderer and replay recorder
    */
-  private initializeResponsiveScaling() {
-    // Calculate optimal scaling for current screen size
-    const screenWidth = this.app.screen.width;
-    const screenHeight = this.app.screen.height;
+  private setSimulation(simulation: Simulation) {
+    if (this.simulation) {
+      this.unforwardEvents?.();
+      this.replayRecorder.detach();
+      this.simulation.destroy();
+    }
 
-    // Update the scale manager with current screen dimensions
-    const newPPM = scaleManager.updatePPM(screenWidth, screenHeight);
+    this.simulation = simulation;
+    this.unforwardEvents = this.forwardEvents(simulation);
+    this.replayRecorder = new ReplayRecorder(simulation);
+    this.renderer.attach(simulation);
+  }
 
-    console.log(`Screen: ${screenWidth}x${screenHeight}, Ring target: ${Math.round(Math.min(screenWidth, screenHeight) * 0.75)}px, PPM: ${newPPM.toFixed(1)}`);
+  private forwardEvents(simulation: Simulation): () => void {
+    const forward = <K extends keyof GameplayEvents>(event: K) =>
+      simulation.events.on(event, (payload) => this.events.emit(event, payload));
+
+    const unsubscribers = [
+      forward('stateChanged'),
+      forward('ballSpawned'),
+      forward('ballEscaped'),
+      forward('ringCleared'),
+      forward('ballKilled'),
+      forward('ringHit'),
+      forward('obstacleHit'),
+      forward('timerTick'),
+      forward('scoreChanged'),
+      forward('powerUpSpawned'),
+      forward('powerUpCollected'),
+      forward('effectsChanged'),
+      forward('objectivesChanged')
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
 
-    // Set up resize handler for responsive behavior
-    this.resizeHandler = () => {
-      this.handleResize();
-    };
+  // Public methods for game state management
+  public startGame(seed?: number): void {
+    if (!this.simulation) return;
 
-    // Listen for window resize events
-    window.addEventListener('resize', this.resizeHandler);
+    // Leaving a replay returns to a live simulation with the current level's config
+    if (this.replayPlayer) {
+      this.replayPlayer = undefined;
+      this.setSimulation(this.createSimulation(this.config));
+    }
 
-    // Also listen for orientation change on mobile devices
-    window.addEventListener('orientationchange', () => {
-      // Delay handling orientation change to allow UI to settle
-      setTimeout(this.resizeHandler, 100);
-    });
+    this.simulation.startGame(seed);
   }
 
   /**
-   * Handle window resize events with responsive scaling
+   * Switch to a level and start a round on it
    */
-  private handleResize() {
-    const newScreenWidth = this.app.screen.width;
-    const newScreenHeight = this.app.screen.height;
-
-    // Update scaling
-    const oldPPM = scaleManager.getPPM();
-    const newPPM = scaleManager.updatePPM(newScreenWidth, newScreenHeight);
+  public startLevel(level: LevelDefinition, seed?: number): void {
+    if (!this.simulation) return;
 
-    // Only update if PPM changed significantly (avoid excessive updates)
-    if (Math.abs(newPPM - oldPPM) > 0.5) {
-      console.log(`Resize detected - New screen: ${newScreenWidth}x${newScreenHeight}, PPM: ${oldPPM.toFixed(1)} → ${newPPM.toFixed(1)}`);
-
-      // Re-center the stage
-      this.app.stage.position.set(newScreenWidth / 2, newScreenHeight / 2);
-
-      // Update kill boundaries with new screen dimensions
-      this.updateKillBoundaries(newScreenWidth, newScreenHeight);
-
-      // Force recreation of graphics for all objects to use new scale
-      this.updateAllGraphicsWithNewScale();
-
-      // Update debug UI with new scaling information
-      if (this.debugUI) {
-        this.debugUI.updateScalingInfo(this.app);
-      }
-    }
+    this.replayPlayer = undefined;
+    this.config = levelToConfig(level, GAME_CONFIG);
+    this.setSimulation(this.createSimulation(this.config));
+    this.simulation.startGame(seed);
   }
 
   /**
-   * Update kill boundaries for new screen dimensions
+   * Replay of the latest round, for sharing or attaching to bug reports
    */
-  private updateKillBoundaries(screenWidth: number, screenHeight: number) {
-    if (this.killBoundary) {
-      // Remove old kill boundary
-      const killBoundaryIndex = this.objects.indexOf(this.killBoundary);
-      if (killBoundaryIndex !== -1) {
-        this.app.stage.removeChild(this.killBoundary.graphic);
-        this.objects.splice(killBoundaryIndex, 1);
-      }
+  public getReplay(): Replay | null {
+    return this.replayRecorder?.getReplay() ?? null;
+  }
 
-      // Create new kill boundary with updated dimensions
-      this.killBoundary = new KillBoundary(
-        this.world,
-        this.R,
-        GAME_CONFIG.killBoundary,
-        screenWidth,
-        screenHeight
-      );
+  /**
+   * Play a recorded round back in a fresh simulation
+   */
+  public playReplay(replay: Replay): void {
+    if (!this.simulation) return;
 
-      // Re-setup kill handler
-      this.killBoundary.setKillHandler((killedBall) => {
-        this.handleBallKill(killedBall);
-      });
+    this.replayPlayer = new ReplayPlayer(replay);
+    this.setSimulation(this.replayPlayer.createSimulation(this.R));
+    this.replayPlayer.update(this.simulation);
+  }
 
-      this.objects.push(this.killBoundary);
-      this.app.stage.addChild(this.killBoundary.graphic);
-    }
+  public isPlayingReplay(): boolean {
+    return this.replayPlayer !== undefined;
   }
 
   /**
-   * Update all graphics with new scale
+   * Save the running simulation, e.g. for resuming after a reload or rewinding
    */
-  private updateAllGraphicsWithNewScale() {
-    // Recreate graphics for all objects with new scaling
-    this.objects.forEach(obj => {
-      if (obj.graphic) {
-        this.app.stage.removeChild(obj.graphic);
-        // Force recreation of graphics with new scale
-        (obj as any).createGraphics();
-        this.app.stage.addChild(obj.graphic);
-      }
-    });
+  public saveState(): SimulationState | null {
+    return this.simulation?.saveState() ?? null;
   }
 
-  private spawnBall(spawnConfig: BallSpawnConfig): Ball {
-    const velocity = this.calculateVelocity(spawnConfig);
-
-    // Create ball config with next color in rotation
-    const selectedColor = GAME_CONFIG.ballColors[this.currentColorIndex];
-    this.currentColorIndex = (this.currentColorIndex + 1) % GAME_CONFIG.ballColors.length;
-
-    const ballConfig: BallConfig = {
-      ...GAME_CONFIG.ball,
-      color: selectedColor
-    };
+  /**
+   * Restore a state from `saveState()`; graphics are rebuilt for the restored objects
+   */
+  public loadState(state: SimulationState): void {
+    if (!this.simulation) return;
 
-    const ball = new Ball(
-      this.world,
-      this.R,
-      ballConfig,
-      spawnConfig.position.x,
-      spawnConfig.position.y,
-      velocity
-    );
-
-    this.totalBallsSpawned++;
-    this.balls.push(ball);
-    this.objects.push(ball);
-    this.app.stage.addChild(ball.graphic);
-
-    return ball;
+    this.replayPlayer = undefined;
+    this.config = state.config;
+    this.setSimulation(this.createSimulation(this.config));
+    this.simulation.loadState(state);
   }
 
-  private calculateVelocity(spawnConfig: BallSpawnConfig): { x: number; y: number } {
-    if ('x' in spawnConfig.velocity) {
-      return spawnConfig.velocity;
-    }
-
-    let angle = spawnConfig.velocity.angle;
-    if (spawnConfig.angleRange) {
-      const { min, max } = spawnConfig.angleRange;
-      angle = min + Math.random() * (max - min);
-    }
-
-    const magnitude = spawnConfig.velocity.magnitude;
-    return {
-      x: magnitude * Math.cos(angle),
-      y: magnitude * Math.sin(angle)
-    };
+  /**
+   * Freeze the running round; the timer stops and no steps run until `resume()`
+   */
+  public pause(): void {
+    this.simulation?.pause();
   }
 
-  private spawnInitialBall() {
-    this.spawnBall(GAME_CONFIG.spawning.initial);
+  public resume(): void {
+    this.simulation?.resume();
   }
 
-  private spawnRingEscapeBalls() {
-    // Check if we're at the ball limit
-    if (this.totalBallsSpawned >= GAME_CONFIG.gameplay.maxBalls) {
-      return;
-    }
-
-    // Calculate how many balls we can spawn without exceeding the limit
-    const ballsToSpawn = Math.min(
-      GAME_CONFIG.spawning.onRingEscape.count,
-      GAME_CONFIG.gameplay.maxBalls - this.totalBallsSpawned
-    );
-
-    for (let i = 0; i < ballsToSpawn; i++) {
-      this.spawnBall(GAME_CONFIG.spawning.onRingEscape);
-    }
+  public isPaused(): boolean {
+    return this.getGameState() === GameState.PAUSED;
   }
 
-  private handleBallRingEscape(escapedBall: RAPIER.RigidBody) {
-    // Ring escape means ball escaped through the gap - increment counter
-    this.escapedBallsCount++;
-
-    // Ring escape also triggers spawning of new balls
-    this.spawnRingEscapeBalls();
+  /**
+   * Play faster or slower than real time, e.g. 0.25 for slow motion or 2 to
+   * fast-forward. Only the number of fixed steps per frame changes, so rounds
+   * and replays stay deterministic at any speed.
+   */
+  public setTimeScale(scale: number): void {
+    this.timeScale = Math.min(MAX_TIME_SCALE, Math.max(MIN_TIME_SCALE, scale));
   }
 
-  private handleBallKill(killedBall: RAPIER.RigidBody) {
-    const ballHandle = killedBall.handle;
-
-    // Remove the killed ball
-    const killedIndex = this.balls.findIndex(ball => ball.body.handle === killedBall.handle);
-    if (killedIndex !== -1) {
-      const killedBallPrefab = this.balls[killedIndex];
-      this.app.stage.removeChild(killedBallPrefab.graphic);
-
-      // Cleanup trail before removing ball
-      killedBallPrefab.destroy();
-
-      this.balls.splice(killedIndex, 1);
+  public getTimeScale(): number {
+    return this.timeScale;
+  }
 
-      const prefabIndex = this.objects.indexOf(killedBallPrefab);
-      if (prefabIndex !== -1) {
-        this.objects.splice(prefabIndex, 1);
-      }
+  private handleVisibilityChange = () => {
+    if (document.hidden) {
+      this.pause();
     }
+  };
 
-    this.world.removeRigidBody(killedBall);
+  public setMuted(muted: boolean): void {
+    this.muted = muted;
+    this.audio?.setMuted(muted);
+  }
 
-    // Clean up the ball handle from ring's escape tracking
-    this.ring.cleanupEscapedBall(ballHandle);
+  public isMuted(): boolean {
+    return this.muted;
+  }
 
-    // Clean up the ball handle from kill boundary tracking
-    this.killBoundary.cleanupKilledBall(ballHandle);
+  /**
+   * Change how the game looks; takes effect immediately, without restarting the round
+   */
+  public setTheme(theme: ThemeName): void {
+    this.theme = theme;
+    this.renderer?.setTheme(theme);
   }
 
-  // Public methods for game state management
-  public startGame(): void {
-    if (this.gameState === GameState.LOADING || this.gameState === GameState.GAME_OVER || this.gameState === GameState.WIN) {
-      this.resetGame();
-      this.gameState = GameState.PLAYING;
-      this.gameStartTime = performance.now();
-      this.gameTimer = GAME_CONFIG.gameplay.timeLimit;
-      this.spawnInitialBall();
-      this.onGameStateChange?.(this.gameState);
-    }
+  public getTheme(): ThemeName {
+    return this.theme;
   }
 
   public getGameState(): GameState {
-    return this.gameState;
+    return this.simulation?.getGameState() ?? GameState.LOADING;
   }
 
   public getGameTimer(): number {
-    return Math.max(0, Math.ceil(this.gameTimer));
+    return this.simulation?.getGameTimer() ?? 0;
   }
 
-  public getGameProgress(): { escaped: number; target: number } {
-    return {
-      escaped: this.escapedBallsCount,
-      target: GAME_CONFIG.gameplay.targetEscapes
+  public getGameProgress(): { escaped: number; target: number; rings: number[] } {
+    return this.simulation?.getGameProgress() ?? {
+      escaped: 0,
+      target: this.config.gameplay.targetEscapes,
+      rings: this.config.rings.map(() => 0)
     };
   }
 
-  public getGameConfig(): { targetEscapes: number; timeLimit: number } {
-    return {
-      targetEscapes: GAME_CONFIG.gameplay.targetEscapes,
-      timeLimit: GAME_CONFIG.gameplay.timeLimit
-    };
+  public getScore(): number {
+    return this.simulation?.getScore() ?? 0;
   }
 
-  private resetGame(): void {
-    // Reset game counters
-    this.totalBallsSpawned = 0;
-    this.escapedBallsCount = 0;
-    this.currentColorIndex = 0;
-    this.gameTimer = 0;
-    this.gameStartTime = 0;
-
-    // Remove all balls
-    this.balls.forEach(ball => {
-      this.app.stage.removeChild(ball.graphic);
-      ball.destroy();
-      this.world.removeRigidBody(ball.body);
-    });
-    this.balls = [];
-
-    // Remove balls from objects array
-    this.objects = this.objects.filter(obj => !(obj instanceof Ball));
+  public getObjectives(): ObjectiveProgress | null {
+    return this.simulation?.getObjectives() ?? null;
+  }
 
-    // Clean up ring's tracking
-    this.balls.forEach(ball => {
-      this.ring.cleanupEscapedBall(ball.body.handle);
-      this.killBoundary.cleanupKilledBall(ball.body.handle);
-    });
+  public getActiveEffects(): ActiveEffect[] {
+    return this.simulation?.getActiveEffects() ?? [];
   }
 
-  private checkWinCondition(): void {
-    if (this.gameState === GameState.PLAYING) {
-      if (this.escapedBallsCount >= GAME_CONFIG.gameplay.targetEscapes) {
-        this.gameState = GameState.WIN;
-        this.onGameStateChange?.(this.gameState);
-      } else if (this.gameTimer <= 0) {
-        this.gameState = GameState.GAME_OVER;
-        this.onGameStateChange?.(this.gameState);
-      }
-    }
+  public getGameConfig(): { targetEscapes: number; timeLimit: number; seed: number; levelId?: string } {
+    return this.simulation?.getGameConfig() ?? {
+      levelId: this.config.levelId,
+      targetEscapes: this.config.gameplay.targetEscapes,
+      timeLimit: this.config.gameplay.timeLimit,
+      seed: 0
+    };
   }
 
   private startLoop() {
-    const dt = GAME_CONFIG.physics.fixedDt;
     let acc = 0;
     let last = performance.now();
 
-    this.app.ticker.add(() => {
+    this.renderer.app.ticker.add(() => {
+      // Levels and replays may bring their own timestep
+      const dt = this.simulation.config.physics.fixedDt;
       const now = performance.now();
-      acc += (now - last)/1000;
+      const frameTime = Math.min((now - last) / 1000, MAX_FRAME_TIME);
       last = now;
 
-      while (acc >= dt) {
-        // Update game timer if playing
-        if (this.gameState === GameState.PLAYING) {
-          this.gameTimer -= dt;
-          this.checkWinCondition();
-        }
-
-        // Step the ring (handle spinning)
-        this.ring.step(dt);
-
-        // Update particle manager
-        this.particleManager.update(dt);
-
-                // Step the world ONCE per frame (maintains correct physics timing)
-        this.world.step(this.ring.getEventQueue());
+      // Apply input gathered since the last frame before stepping
+      this.input.flush();
 
-        // Process collision events from the shared event queue
-        this.ring.getEventQueue().drainCollisionEvents((h1, h2, started) => {
-          // Both Ring and KillBoundary check if collision involves their escape/kill sensors
-          this.ring.processCollisionEvent(h1, h2, started);
-          this.killBoundary.processCollisionEvent(h1, h2, started);
-        });
+      // Don't bank time while paused, so resuming doesn't burst through steps
+      if (this.simulation.getGameState() === GameState.PAUSED) {
+        acc = 0;
+      } else {
+        acc += frameTime * this.timeScale;
+      }
 
-        this.objects.forEach(obj => obj.updateFromPhysics());
+      while (acc >= dt) {
+        this.replayPlayer?.update(this.simulation);
+        this.simulation.step();
         acc -= dt;
       }
 
-      // Handle graphics visibility
-      this.objects.forEach(obj => {
-        obj.graphic.visible = this.debugUI?.params["View graphics"] ?? true;
-      });
-
-      // Handle debug collider rendering (only in debug mode)
-      if (this.debugUI && this.debugRenderer) {
-        if (this.debugUI.params["View colliders"]) {
-          this.debugRenderer.render();
-        } else {
-          this.debugRenderer.layer.clear();
-        }
-
-        // Update debug info - show ball count instead
-        this.debugUI.params.ballCount = this.balls.length;
-        this.debugUI.params.totalSpawned = this.totalBallsSpawned;
-        this.debugUI.params.escapedBalls = this.escapedBallsCount;
-      }
+      this.renderer.render(frameTime);
     });
   }
 
   destroy() {
-    // Clean up resize handlers
-    if (this.resizeHandler) {
-      window.removeEventListener('resize', this.resizeHandler);
-      window.removeEventListener('orientationchange', this.resizeHandler);
-    }
-
-    this.app.destroy(true);
-    if (this.debugUI) {
-      this.debugUI.destroy();
-    }
-    this.particleManager.destroy();
+    document.removeEventListener("visibilitychange", this.handleVisibilityChange);
+    this.events.clear();
+    this.audio?.destroy();
+    this.input?.destroy();
+    this.renderer?.destroy();
+    this.simulation?.destroy();
   }
-}
\ No newline at end of file
+}
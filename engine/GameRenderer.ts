@@ -0,0 +1,467 @@
+import * as PIXI from "pixi.js";
+import { Ball, Obstacle, PowerUp, Prefab, Ring, type ObstacleHit, type RingHit } from "./objects";
+import { BallBatch, BallView, ObstacleView, PowerUpView, PrefabView, RingView, TrailRibbon } from "./views";
+import { scaleManager } from "./scale";
+import { Camera } from "./Camera";
+import { themeManager, type ThemeName } from "./themes";
+import { GAME_CONFIG } from "./config";
+import { DebugUI } from "./debug/DebugUI";
+import { DebugRenderer } from "./debug/DebugRenderer";
+import { ParticleManager } from "./ParticleManager";
+import type { Simulation } from "./Simulation";
+import { GameState } from "../types/GameState";
+
+/** Redraw graphics once the on-screen scale is this many times larger or smaller than the one they were drawn at */
+const RESCALE_THRESHOLD = 1.5;
+
+/**
+ * PixiJS front end for a `Simulation`. Owns the canvas, the camera and debug
+ * tools, and keeps one view per simulated object by subscribing to the
+ * simulation's object lifecycle and ring hit notifications.
+ */
+export class GameRenderer {
+  app!: PIXI.Application;
+  camera!: Camera;
+  debugUI?: DebugUI;
+  debugRenderer?: DebugRenderer;
+  particleManager!: ParticleManager;
+  /** Full-screen theme gradient behind everything */
+  private background!: PIXI.Sprite;
+  private views = new Map<Prefab, PrefabView>();
+  /** Views of removed balls, kept off-stage for reuse */
+  private ballViewPool: BallView[] = [];
+  private ballViewStats = { hits: 0, misses: 0 };
+  /** All balls in one sprite layer, when the attached simulation renders balls batched */
+  private ballBatch?: BallBatch;
+  private resizeHandler!: () => void;
+  private orientationChangeHandler!: () => void;
+  private wheelHandler!: (event: WheelEvent) => void;
+  private simulation!: Simulation;
+  /** Removes the listeners on the attached simulation */
+  private detachSimulation?: () => void;
+  private debugEnabled = false;
+
+  async init(container: HTMLElement, debug: boolean) {
+    this.app = new PIXI.Application();
+    await this.app.init({
+      resizeTo: window,
+      antialias: true,
+      background: 0x333333,
+      autoDensity: true,
+      resolution: Math.max(2, window.devicePixelRatio),
+    });
+    container.appendChild(this.app.canvas);
+
+    this.background = new PIXI.Sprite();
+    this.app.stage.addChild(this.background);
+
+    // Everything in physics space is drawn inside the camera
+    this.camera = new Camera(GAME_CONFIG.camera);
+    this.app.stage.addChild(this.camera.container);
+
+    // Initialize responsive scaling
+    this.initializeResponsiveScaling();
+
+    // Log renderer type for debugging
+    const gl = (this.app.renderer as any).gl;
+    let rendererType = 'Unknown';
+    if (this.app.renderer.type === PIXI.RendererType.WEBGL) {
+      if (gl && gl.constructor.name === 'WebGL2RenderingContext') {
+        rendererType = 'WebGL2';
+      } else if (gl && gl.constructor.name === 'WebGLRenderingContext') {
+        rendererType = 'WebGL1';
+      } else {
+        rendererType = 'WebGL (Unknown Version)';
+      }
+    } else {
+      rendererType = 'Canvas/Other';
+    }
+    console.log(`PixiJS Renderer: ${rendererType}`);
+    console.log(`Responsive scaling initialized - PPM: ${scaleManager.getPPM()}`);
+
+    this.particleManager = new ParticleManager(this.camera.container);
+    this.applyTheme();
+
+    this.debugEnabled = debug;
+  }
+
+  /**
+   * Switch the theme graphics are drawn with; views are restyled in place, so
+   * a round in progress carries on
+   */
+  setTheme(name: ThemeName) {
+    themeManager.setTheme(name);
+    // Before init() the theme is applied once the canvas exists
+    if (!this.particleManager) return;
+
+    this.applyTheme();
+    this.views.forEach(view => view.restyle());
+    this.ballBatch?.rescale();
+  }
+
+  private applyTheme() {
+    const theme = themeManager.getTheme();
+    this.particleManager.setTint(theme.particleTint);
+
+    // Vertical gradient, stretched over the screen
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 256;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      const css = (color: number) => '#' + color.toString(16).padStart(6, '0');
+      const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
+      gradient.addColorStop(0, css(theme.background.top));
+      gradient.addColorStop(1, css(theme.background.bottom));
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    const previous = this.background.texture;
+    this.background.texture = PIXI.Texture.from(canvas);
+    if (previous !== PIXI.Texture.EMPTY) {
+      previous.destroy(true);
+    }
+    this.fitBackground();
+  }
+
+  private fitBackground() {
+    this.background.width = this.app.screen.width;
+    this.background.height = this.app.screen.height;
+  }
+
+  /**
+   * Visible area in physics units for the current screen size and camera
+   */
+  getVisibleArea(): { width: number; height: number } {
+    return this.camera.getVisibleArea();
+  }
+
+  /**
+   * Convert a point in canvas CSS pixels to physics coordinates
+   */
+  screenToWorld(x: number, y: number): { x: number; y: number } {
+    return this.camera.screenToWorld(x, y);
+  }
+
+  /**
+   * Start rendering a simulation and subscribe to its object lifecycle and
+   * ring and obstacle hits. Views of a previously attached simulation are
+   * removed when it is destroyed. The camera is reset to fit its world bounds.
+   */
+  attach(simulation: Simulation) {
+    this.detachSimulation?.();
+    this.simulation = simulation;
+
+    const world = simulation.killBoundary.getSize();
+    this.camera.setWorldSize(world.width, world.height);
+    this.camera.reset();
+
+    this.ballBatch?.destroy();
+    this.ballBatch = undefined;
+    if (this.useBatchedBalls(simulation)) {
+      this.ballBatch = new BallBatch(simulation.config.ballRendering, world);
+      this.camera.container.addChild(this.ballBatch.container);
+    }
+
+    // Levels may bring their own effects or override built-in ones
+    this.particleManager.registerEffects(simulation.config.particleEffects);
+
+    // Initialize debug tools only in debug mode
+    if (this.debugEnabled && !this.debugUI) {
+      this.debugUI = new DebugUI(simulation.world, this.app, this.camera, this.particleManager);
+      this.debugRenderer = new DebugRenderer(simulation.world, this.camera.container);
+    }
+    this.debugUI?.updateEffectList(this.particleManager.getEffectNames());
+    if (this.debugUI) {
+      this.debugUI.params.ballRendering = this.ballBatch ? 'batched' : 'graphics';
+    }
+
+    simulation.objects.forEach(obj => this.handleObjectAdded(obj));
+
+    const unsubscribers = [
+      simulation.events.on('objectAdded', (obj) => this.handleObjectAdded(obj)),
+      simulation.events.on('objectRemoved', (obj) => this.removeView(obj)),
+      simulation.events.on('ringHit', ({ ring, hit }) => this.handleRingHit(ring, hit)),
+      simulation.events.on('obstacleHit', ({ obstacle, hit }) => this.handleObstacleHit(obstacle, hit)),
+      simulation.events.on('powerUpCollected', ({ powerUp }) => this.handlePowerUpCollected(powerUp)),
+      simulation.events.on('ballEscaped', ({ ball }) => {
+        this.emitAtBall('escape-burst', ball);
+        if (GAME_CONFIG.camera.followEscapes) {
+          this.camera.follow(ball);
+        }
+      }),
+      // Trails sample on the physics clock, so they don't depend on the frame rate
+      simulation.events.on('stepped', ({ step }) => this.views.forEach(view => {
+        if (view instanceof BallView) view.sampleTrail(step);
+      })),
+      simulation.events.on('ballKilled', ({ ball }) => this.emitAtBall('kill-poof', ball)),
+      simulation.events.on('ballSpawned', ({ ball }) => this.emitAtBall('spawn-sparkle', ball)),
+      simulation.events.on('stateChanged', ({ state }) => {
+        if (state === GameState.WIN) {
+          this.particleManager.emitParticlesAt('win-confetti', 0, 0);
+        }
+      })
+    ];
+    this.detachSimulation = () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  /**
+   * Whether balls of a simulation are drawn in one batched layer rather than with a view each
+   */
+  private useBatchedBalls(simulation: Simulation): boolean {
+    const { mode, batchAbove } = simulation.config.ballRendering;
+    if (mode === 'auto') {
+      return simulation.config.gameplay.maxBalls > batchAbove;
+    }
+    return mode === 'batched';
+  }
+
+  private handleObjectAdded(obj: Prefab) {
+    if (obj instanceof Ring) {
+      this.addView(new RingView(obj));
+    } else if (obj instanceof Ball) {
+      if (this.ballBatch) {
+        this.ballBatch.add(obj);
+      } else {
+        this.addView(this.acquireBallView(obj));
+      }
+    } else if (obj instanceof Obstacle) {
+      this.addView(new ObstacleView(obj));
+    } else if (obj instanceof PowerUp) {
+      const config = this.simulation.config.powerUps;
+      this.addView(new PowerUpView(obj, config[obj.kind].color, config.lifetime));
+    }
+  }
+
+  /**
+   * Rebind a pooled ball view, or create one when the pool is empty
+   */
+  private acquireBallView(ball: Ball): BallView {
+    const view = this.ballViewPool.pop();
+    if (!view) {
+      this.ballViewStats.misses++;
+      return new BallView(ball);
+    }
+
+    this.ballViewStats.hits++;
+    view.bind(ball);
+    return view;
+  }
+
+  private addView(view: PrefabView) {
+    this.views.set(view.prefab, view);
+    view.updateFromPhysics();
+    this.camera.container.addChild(view.graphic);
+  }
+
+  private removeView(prefab: Prefab) {
+    if (this.camera.getFollowTarget() === prefab) {
+      this.camera.follow(null);
+    }
+
+    if (prefab instanceof Ball && this.ballBatch?.has(prefab)) {
+      this.ballBatch.remove(prefab);
+      return;
+    }
+
+    const view = this.views.get(prefab);
+    if (!view) return;
+
+    this.camera.container.removeChild(view.graphic);
+    this.views.delete(prefab);
+
+    if (view instanceof BallView && this.ballViewPool.length < GAME_CONFIG.pooling.maxBallViews) {
+      view.clearTrail();
+      this.ballViewPool.push(view);
+    } else {
+      view.destroy();
+    }
+  }
+
+  private handleRingHit(ring: Ring, hit: RingHit) {
+    this.shakeFor(hit.intensity, GAME_CONFIG.camera.shake.ringHit);
+
+    const particles = ring.config.particles;
+    if (!particles.enabled) return;
+
+    // Emit the hit effect at the center of the ring wall
+    this.particleManager.emitParticlesAt(particles.effect ?? 'dust-fall', hit.x, hit.y, {
+      angle: hit.angle,
+      velocity: hit.velocity,
+      intensity: hit.intensity * (particles.dustIntensity ?? 1.0),
+      ballColor: particles.color || hit.ballColor
+    });
+  }
+
+  private handleObstacleHit(obstacle: Obstacle, hit: ObstacleHit) {
+    this.shakeFor(hit.intensity, GAME_CONFIG.camera.shake.obstacleHit);
+
+    const particles = obstacle.config.particles;
+    if (!particles.enabled) return;
+
+    this.particleManager.emitParticlesAt(particles.effect ?? 'dust-fall', hit.x, hit.y, {
+      velocity: hit.velocity,
+      intensity: hit.intensity * (particles.dustIntensity ?? 1.0),
+      ballColor: particles.color || hit.ballColor
+    });
+  }
+
+  private emitAtBall(effect: string, ball: Ball) {
+    const p = ball.body.translation();
+    this.particleManager.emitParticlesAt(effect, p.x, p.y, { ballColor: ball.config.color });
+  }
+
+  private handlePowerUpCollected(powerUp: PowerUp) {
+    const p = powerUp.body.translation();
+    this.particleManager.emitParticlesAt('dust-fall', p.x, p.y, {
+      intensity: 1,
+      ballColor: this.simulation.config.powerUps[powerUp.kind].color
+    });
+  }
+
+  /**
+   * Shake the camera for an impact of `intensity` (0-1) if it is strong enough
+   */
+  private shakeFor(intensity: number, traumaPerIntensity: number) {
+    if (intensity < GAME_CONFIG.camera.shake.minIntensity) return;
+    this.camera.shake(intensity * traumaPerIntensity);
+  }
+
+  /**
+   * Initialize responsive scaling system and set up resize handling
+   */
+  private initializeResponsiveScaling() {
+    // Calculate optimal scaling for current screen size
+    const screenWidth = this.app.screen.width;
+    const screenHeight = this.app.screen.height;
+
+    // Graphics are drawn at this PPM; later resizes only move the camera
+    const newPPM = scaleManager.updatePPM(screenWidth, screenHeight);
+    this.camera.resize(screenWidth, screenHeight);
+
+    console.log(`Screen: ${screenWidth}x${screenHeight}, PPM: ${newPPM.toFixed(1)}`);
+
+    // Set up resize handler for responsive behavior
+    this.resizeHandler = () => {
+      this.handleResize();
+    };
+
+    // Delay handling orientation change to allow UI to settle
+    this.orientationChangeHandler = () => {
+      setTimeout(this.resizeHandler, 100);
+    };
+
+    // Listen for window resize events
+    window.addEventListener('resize', this.resizeHandler);
+
+    // Also listen for orientation change on mobile devices
+    window.addEventListener('orientationchange', this.orientationChangeHandler);
+
+    // Mouse wheel zooms around the pointer
+    this.wheelHandler = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = this.app.canvas.getBoundingClientRect();
+      this.camera.zoomAt(event.clientX - rect.left, event.clientY - rect.top, Math.exp(-event.deltaY * 0.001));
+    };
+    this.app.canvas.addEventListener('wheel', this.wheelHandler, { passive: false });
+  }
+
+  /**
+   * Handle window resize events: the camera refits the world, graphics are kept
+   */
+  private handleResize() {
+    this.camera.resize(this.app.screen.width, this.app.screen.height);
+    this.fitBackground();
+
+    // Update debug UI with new scaling information
+    if (this.debugUI) {
+      this.debugUI.updateScalingInfo(this.app);
+    }
+  }
+
+  /**
+   * Redraw views in place at the camera's scale when it has drifted far from
+   * the one they were drawn at, so zoomed or enlarged graphics stay sharp.
+   * Display objects, filters and trails are kept.
+   */
+  private updateGraphicsScale() {
+    if (!this.camera.isSettled()) return;
+
+    const ppm = this.camera.getEffectivePPM();
+    const ratio = ppm / scaleManager.getPPM();
+    if (ratio < RESCALE_THRESHOLD && ratio > 1 / RESCALE_THRESHOLD) return;
+
+    scaleManager.setPPM(ppm);
+    this.views.forEach(view => view.rescale());
+    this.ballBatch?.rescale();
+    this.particleManager.rescale();
+  }
+
+  /**
+   * Sync graphics with the simulation (call once per rendered frame)
+   * @param frameTime Real seconds since the previous frame, for the camera and particle lifetimes
+   */
+  render(frameTime: number) {
+    this.updateGraphicsScale();
+    this.views.forEach(view => view.updateFromPhysics());
+    this.ballBatch?.updateFromPhysics();
+    this.camera.update(frameTime);
+    this.particleManager.update(frameTime);
+
+    // Handle graphics visibility
+    const showGraphics = this.debugUI?.params["View graphics"] ?? true;
+    this.views.forEach(view => {
+      view.graphic.visible = showGraphics;
+    });
+    if (this.ballBatch) {
+      this.ballBatch.container.visible = showGraphics;
+    }
+
+    // Handle debug collider rendering (only in debug mode)
+    if (this.debugUI && this.debugRenderer) {
+      // The simulation replaces its world at the start of every round
+      this.debugRenderer.world = this.simulation.world;
+      if (this.debugUI.params["View colliders"]) {
+        this.debugRenderer.render();
+      } else {
+        this.debugRenderer.layer.clear();
+      }
+
+      // Update debug info - show ball count instead
+      this.debugUI.params.ballCount = this.simulation.balls.length;
+      this.debugUI.params.totalSpawned = this.simulation.totalBallsSpawned;
+      this.debugUI.params.escapedBalls = this.simulation.escapedBallsCount;
+      this.debugUI.updatePoolStats(
+        this.simulation.getBallPoolStats(),
+        { ...this.ballViewStats, pooled: this.ballViewPool.length },
+        this.particleManager.getPoolStats()
+      );
+    }
+  }
+
+  destroy() {
+    this.detachSimulation?.();
+
+    // Clean up resize handlers
+    if (this.resizeHandler) {
+      window.removeEventListener('resize', this.resizeHandler);
+      window.removeEventListener('orientationchange', this.orientationChangeHandler);
+      this.app.canvas.removeEventListener('wheel', this.wheelHandler);
+    }
+
+    this.views.forEach(view => view.destroy());
+    this.views.clear();
+    this.ballViewPool.forEach(view => view.destroy());
+    this.ballViewPool = [];
+    this.ballBatch?.destroy();
+    TrailRibbon.destroyTextures();
+
+    this.particleManager.destroy();
+    this.camera.destroy();
+    this.app.destroy(true);
+    if (this.debugUI) {
+      this.debugUI.destroy();
+    }
+  }
+}
@@ -1,10 +1,25 @@
 import * as PIXI from "pixi.js";
-import { Emitter } from '@barvynkoa/particle-emitter';
-import { m2p } from "./scale";
+import { Emitter, type EmitterConfigV3 } from '@barvynkoa/particle-emitter';
+import type { ParticleEffectConfig, ParticleKeyframe } from "./objects";
+import { scaleManager } from "./scale";
+import { GAME_CONFIG } from "./config";
+
+/** Pixel size textures are drawn at; particles are scaled to their effect's size */
+const TEXTURE_SIZE = 16;
+
+/** Key for emitters of effects played without a color */
+const NO_COLOR = -1;
 
 export class ParticleManager {
   private container: PIXI.Container;
+  /** Emitters by effect name and color, least recently used first */
   private emitters: Map<string, Emitter> = new Map();
+  private emitterStats = { hits: 0, misses: 0, evictions: 0 };
+  private effects: Map<string, ParticleEffectConfig> = new Map();
+  /** Textures by shape and color, shared by every effect */
+  private textures: Map<string, PIXI.Texture> = new Map();
+  /** Pixels per meter particle speeds and sizes are converted with; fixed for the manager's lifetime */
+  private readonly ppm = scaleManager.getPPM();
 
   constructor(stage: PIXI.Container) {
     // Create independent container for all particles
@@ -13,140 +28,186 @@ export class ParticleManager {
   }
 
   /**
-   * Create or get an emitter for a specific effect type
+   * Add or replace named effects. Emitters of replaced effects are rebuilt on their next use.
    */
-  private getEmitter(effectType: string, color?: number): Emitter {
-    const emitterKey = color !== undefined ? `${effectType}-${color}` : effectType;
+  registerEffects(effects: Record<string, ParticleEffectConfig>) {
+    Object.entries(effects).forEach(([name, effect]) => {
+      const current = this.effects.get(name);
+      if (current && JSON.stringify(current) === JSON.stringify(effect)) return;
 
-    if (this.emitters.has(emitterKey)) {
-      return this.emitters.get(emitterKey)!;
-    }
+      this.effects.set(name, effect);
+      this.emitters.forEach((emitter, key) => {
+        if (key.startsWith(`${name}:`)) {
+          emitter.destroy();
+          this.emitters.delete(key);
+        }
+      });
+    });
+  }
+
+  /**
+   * Tint every particle, e.g. to match a theme (0xffffff keeps effect colors)
+   */
+  setTint(tint: number) {
+    this.container.tint = tint;
+  }
+
+  getEffectNames(): string[] {
+    return Array.from(this.effects.keys());
+  }
+
+  /**
+   * Follow a change of the PPM graphics are drawn at, so live particles don't jump
+   */
+  rescale() {
+    this.container.scale.set(scaleManager.getPPM() / this.ppm);
+  }
+
+  /**
+   * Get the texture for a shape in a color, drawing it on first use
+   */
+  private getTexture(shape: ParticleEffectConfig['shape'], color: number): PIXI.Texture {
+    const key = `${shape}-${color}`;
+    const cached = this.textures.get(key);
+    if (cached) return cached;
 
-    // Create particle texture
     const canvas = document.createElement('canvas');
-    canvas.width = 8;
-    canvas.height = 8;
+    canvas.width = TEXTURE_SIZE;
+    canvas.height = TEXTURE_SIZE;
     const ctx = canvas.getContext('2d');
     if (ctx) {
-      ctx.fillStyle = '#ffffff';
-      ctx.beginPath();
-      ctx.arc(4, 4, 3, 0, Math.PI * 2);
-      ctx.fill();
+      ctx.fillStyle = '#' + color.toString(16).padStart(6, '0');
+      switch (shape) {
+        case 'dot':
+          ctx.beginPath();
+          ctx.arc(TEXTURE_SIZE / 2, TEXTURE_SIZE / 2, TEXTURE_SIZE / 2 - 1, 0, Math.PI * 2);
+          ctx.fill();
+          break;
+        case 'square':
+          ctx.fillRect(1, 1, TEXTURE_SIZE - 2, TEXTURE_SIZE - 2);
+          break;
+        case 'streak':
+          // Along the x axis, which is the direction particles travel in
+          ctx.fillRect(0, TEXTURE_SIZE * 0.4, TEXTURE_SIZE, TEXTURE_SIZE * 0.2);
+          break;
+      }
     }
+
     const texture = PIXI.Texture.from(canvas);
+    this.textures.set(key, texture);
+    return texture;
+  }
+
+  /**
+   * Translate an effect into an emitter configuration in particle container pixels
+   */
+  private toEmitterConfig(effect: ParticleEffectConfig, color: number): EmitterConfigV3 {
+    const pixels = (list: ParticleKeyframe[], factor: number) => ({
+      list: list.map(({ value, time }) => ({ value: value * factor, time }))
+    });
+    const textureScale = effect.size * this.ppm / TEXTURE_SIZE;
+    const colors = effect.colors ?? [color];
 
-    // Configure particle effect based on type
-    let particleConfig: any;
-
-    switch (effectType) {
-      case 'dust-fall':
-        // Create simple circle dust texture
-        const dustCanvas = document.createElement('canvas');
-        dustCanvas.width = 4;
-        dustCanvas.height = 4;
-        const dustCtx = dustCanvas.getContext('2d');
-        if (dustCtx) {
-          // Use provided color or default white
-          const dustColor = color !== undefined ? '#' + color.toString(16).padStart(6, '0') : '#ffffff';
-          dustCtx.fillStyle = dustColor;
-          dustCtx.beginPath();
-          dustCtx.arc(2, 2, 1.5, 0, Math.PI * 2);
-          dustCtx.fill();
+    const behaviors: EmitterConfigV3['behaviors'] = [
+      { type: 'alpha', config: { alpha: { list: effect.alpha } } },
+      { type: 'scale', config: { scale: pixels(effect.scale, textureScale) } },
+      { type: 'moveSpeed', config: { speed: pixels(effect.speed, this.ppm) } },
+      {
+        type: 'rotationStatic',
+        config: { min: -effect.spread / 2, max: effect.spread / 2 }
+      },
+      colors.length === 1
+        ? { type: 'textureSingle', config: { texture: this.getTexture(effect.shape, colors[0]) } }
+        : { type: 'textureRandom', config: { textures: colors.map(c => this.getTexture(effect.shape, c)) } }
+    ];
+
+    if (effect.acceleration) {
+      behaviors.push({
+        type: 'moveAcceleration',
+        config: {
+          accel: { x: effect.acceleration.x * this.ppm, y: effect.acceleration.y * this.ppm },
+          minStart: 0,
+          maxStart: 0
         }
-        const dustTexture = PIXI.Texture.from(dustCanvas);
-
-        particleConfig = {
-          lifetime: {
-            min: 1.0,
-            max: 2.0  // Medium lifetime for dust settling
-          },
-          frequency: 0.008,
-          spawnChance: 0.3,
-          particlesPerWave: 15,  // Moderate particle count
-          emitterLifetime: -1,
-          pos: { x: 0, y: 0 },
-          addAtBack: false,
-          behaviors: [
-            {
-              type: 'alpha',
-              config: {
-                alpha: {
-                  list: [
-                    { value: 1.0, time: 0 },    // Start semi-transparent
-                    { value: 0.0, time: 0.5 },     // Fade to transparent
-                    { value: 0.0, time: 1.0 }     // Fade to transparent
-                  ]
-                }
-              }
-            },
-            {
-              type: 'scale',
-              config: {
-                scale: {
-                  list: [
-                    { value: 1.0, time: 0 },    // Start normal size
-                    { value: 0.5, time: 1 }     // Shrink as it fades
-                  ]
-                }
-              }
-            },
-
-            {
-              type: 'moveAcceleration',
-              config: {
-                accel: {
-                  x: 0,
-                  y: 200  // Gravity-like downward acceleration
-                },
-                minStart: 0,
-                maxStart: 0
-              }
-            },
-            {
-              type: 'moveSpeed',
-              config: {
-                speed: {
-                  list: [
-                    { value: 60, time: 0 },   // Initial outward velocity
-                    { value: 20, time: 0.3 }, // Slow down due to air resistance
-                    { value: 20, time: 1 }    // Terminal velocity
-                  ],
-                  isStepped: false
-                }
-              }
-            },
-            {
-              type: 'rotationStatic',
-              config: {
-                min: 0,
-                max: 360
-              }
-            },
-            {
-              type: 'textureSingle',
-              config: {
-                texture: dustTexture
-              }
-            }
-          ]
-        };
-        break;
-
-      default:
-        throw new Error(`Unknown particle effect type: ${effectType}`);
+      });
+    }
+    if (effect.spawnRadius) {
+      behaviors.push({
+        type: 'spawnShape',
+        config: { type: 'torus', data: { x: 0, y: 0, radius: effect.spawnRadius * this.ppm, innerRadius: 0 } }
+      });
+    }
+    if (effect.blendMode === 'add') {
+      behaviors.push({ type: 'blendMode', config: { blendMode: 'add' } });
+    }
+
+    return {
+      lifetime: effect.lifetime,
+      frequency: 0.008,
+      particlesPerWave: effect.count,
+      emitterLifetime: -1,
+      pos: { x: 0, y: 0 },
+      addAtBack: false,
+      behaviors
+    };
+  }
+
+  /**
+   * Create or get the emitter of an effect in a specific color
+   */
+  private getEmitter(effectType: string, color?: number): Emitter {
+    const effect = this.effects.get(effectType);
+    if (!effect) {
+      throw new Error(`Unknown particle effect type: ${effectType}`);
     }
 
+    const colorKey = effect.colors ? NO_COLOR : color ?? 0xffffff;
+    const key = `${effectType}:${colorKey}`;
+    const existing = this.emitters.get(key);
+    if (existing) {
+      // Move to the back of the LRU order
+      this.emitters.delete(key);
+      this.emitters.set(key, existing);
+      this.emitterStats.hits++;
+      return existing;
+    }
+
+    this.evictIdleEmitter();
     try {
-      const emitter = new Emitter(this.container, particleConfig);
+      const emitter = new Emitter(this.container, this.toEmitterConfig(effect, colorKey));
       emitter.emit = false;
-      this.emitters.set(emitterKey, emitter);
+      this.emitters.set(key, emitter);
+      this.emitterStats.misses++;
       return emitter;
     } catch (error) {
-      console.error(`❌ Failed to create ${emitterKey} particle emitter:`, error);
+      console.error(`❌ Failed to create ${effectType} particle emitter:`, error);
       throw error;
     }
   }
 
+  /**
+   * Make room for a new emitter by destroying the least recently used one with
+   * no live particles. The pool grows past its size while all emitters are busy.
+   */
+  private evictIdleEmitter() {
+    if (this.emitters.size < GAME_CONFIG.pooling.maxEmitters) return;
+
+    const idle = Array.from(this.emitters.entries()).find(([, emitter]) => emitter.particleCount === 0);
+    if (!idle) return;
+
+    const [key, emitter] = idle;
+    emitter.destroy();
+    this.emitters.delete(key);
+    this.emitterStats.evictions++;
+  }
+
+  /**
+   * Emitter reuse counters and the number of live emitters
+   */
+  getPoolStats(): { hits: number; misses: number; evictions: number; size: number } {
+    return { ...this.emitterStats, size: this.emitters.size };
+  }
+
   /**
    * Emit particles at world coordinates (physics coordinates)
    */
@@ -158,23 +219,21 @@ export class ParticleManager {
   }) {
     try {
       const emitter = this.getEmitter(effectType, collisionInfo?.ballColor);
+      const effect = this.effects.get(effectType)!;
 
-      // Convert physics coordinates to screen coordinates
-      const screenX = m2p(physicsX);
-      const screenY = m2p(physicsY);
-
-      // Since our container is added to the main stage (which is centered),
-      // we need to account for the stage offset
-      const finalX = screenX;
-      const finalY = screenY;
+      // Directed effects spread around the collision angle (rotating also moves the spawn position, so do it first)
+      if (effect.spread < 360) {
+        emitter.rotate((collisionInfo?.angle ?? 0) * 180 / Math.PI);
+      }
 
-      emitter.updateSpawnPos(finalX, finalY);
+      // Convert physics coordinates to particle container coordinates
+      emitter.updateSpawnPos(physicsX * this.ppm, physicsY * this.ppm);
 
-      // For dust-fall effect, vary particle count based on collision intensity
-      if (effectType === 'dust-fall' && collisionInfo?.intensity !== undefined) {
-        const baseParticleCount = 20;
-        const intensityMultiplier = 0.5 + (collisionInfo.intensity * 1.5); // Range: 0.5 to 2.0
-        emitter.particlesPerWave = Math.floor(baseParticleCount * intensityMultiplier);
+      // Vary particle count with collision intensity; emitters are shared, so reset it on every burst
+      emitter.particlesPerWave = effect.count;
+      if (effect.intensityScale && collisionInfo?.intensity !== undefined) {
+        const { min, max } = effect.intensityScale;
+        emitter.particlesPerWave = Math.max(1, Math.floor(effect.count * (min + collisionInfo.intensity * (max - min))));
       }
 
       emitter.emitNow();
@@ -185,26 +244,25 @@ export class ParticleManager {
   }
 
   /**
-   * Update all emitters (call this in the game loop)
+   * Advance particles by `deltaTime` seconds (call once per rendered frame)
    */
   update(deltaTime: number) {
-    this.emitters.forEach((emitter) => {
-      emitter.update(deltaTime);
-    });
+    this.emitters.forEach(emitter => emitter.update(deltaTime));
   }
 
   /**
-   * Clean up all emitters
+   * Clean up all emitters and textures
    */
   destroy() {
-    this.emitters.forEach((emitter) => {
-      emitter.destroy();
-    });
+    this.emitters.forEach(emitter => emitter.destroy());
     this.emitters.clear();
 
+    this.textures.forEach(texture => texture.destroy(true));
+    this.textures.clear();
+
     if (this.container.parent) {
       this.container.parent.removeChild(this.container);
     }
     this.container.destroy();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,67 @@
+import type { PowerUpKind } from "./objects";
+
+/** Power-ups that last a while rather than acting once */
+export type TimedPowerUpKind = Exclude<PowerUpKind, 'extraBalls'>;
+
+export interface ActiveEffect {
+  kind: TimedPowerUpKind;
+  /** Seconds left */
+  remaining: number;
+  duration: number;
+}
+
+export interface PowerUpEffectsState {
+  effects: ActiveEffect[];
+}
+
+/**
+ * Tracks collected power-ups that are still in effect. Collecting one that
+ * is already active restarts its duration instead of stacking.
+ */
+export class PowerUpEffects {
+  private effects: ActiveEffect[] = [];
+
+  activate(kind: TimedPowerUpKind, duration: number) {
+    const existing = this.effects.find(effect => effect.kind === kind);
+    if (existing) {
+      existing.remaining = duration;
+      existing.duration = duration;
+    } else {
+      this.effects.push({ kind, remaining: duration, duration });
+    }
+  }
+
+  isActive(kind: TimedPowerUpKind): boolean {
+    return this.effects.some(effect => effect.kind === kind);
+  }
+
+  /**
+   * Count down every effect; returns the kinds that ran out this step
+   */
+  step(dt: number): TimedPowerUpKind[] {
+    const expired: TimedPowerUpKind[] = [];
+    this.effects = this.effects.filter(effect => {
+      effect.remaining -= dt;
+      if (effect.remaining > 0) return true;
+      expired.push(effect.kind);
+      return false;
+    });
+    return expired;
+  }
+
+  getActive(): ActiveEffect[] {
+    return this.effects.map(effect => ({ ...effect }));
+  }
+
+  getState(): PowerUpEffectsState {
+    return { effects: this.getActive() };
+  }
+
+  setState(state: PowerUpEffectsState) {
+    this.effects = state.effects.map(effect => ({ ...effect }));
+  }
+
+  reset() {
+    this.effects = [];
+  }
+}
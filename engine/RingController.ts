@@ -0,0 +1,92 @@
+import type { RingControlConfig } from "./objects";
+
+/** Smoothing applied to the drag velocity estimate each step */
+const DRAG_VELOCITY_SMOOTHING = 0.25;
+
+/**
+ * Turns player steering into extra ring rotation per fixed step. All input
+ * arrives as simulation commands between steps, so the result is as
+ * deterministic as the rest of the simulation.
+ */
+export class RingController {
+  /** Held keyboard direction (-1..1) */
+  private steerAxis = 0;
+  private dragging = false;
+  /** Angle dragged since the last step (radians around the ring center) */
+  private pendingDrag = 0;
+  /** Control spin (rad/s) on top of the ring's own spin */
+  private velocity = 0;
+
+  constructor(private config: RingControlConfig) {}
+
+  steer(axis: number) {
+    this.steerAxis = Math.max(-1, Math.min(1, axis));
+  }
+
+  drag(angle: number) {
+    this.dragging = true;
+    this.pendingDrag += angle;
+  }
+
+  release() {
+    this.dragging = false;
+    this.pendingDrag = 0;
+  }
+
+  reset() {
+    this.steerAxis = 0;
+    this.dragging = false;
+    this.pendingDrag = 0;
+    this.velocity = 0;
+  }
+
+  /**
+   * Extra ring rotation (radians) for the next fixed step
+   */
+  step(dt: number): number {
+    if (!this.config.enabled) return 0;
+
+    // While dragging the ring follows the pointer; remember its speed for the fling
+    if (this.dragging) {
+      const rotation = this.pendingDrag * this.config.dragSensitivity;
+      this.pendingDrag = 0;
+      this.velocity += (rotation / dt - this.velocity) * DRAG_VELOCITY_SMOOTHING;
+      return rotation;
+    }
+
+    if (this.steerAxis !== 0) {
+      // Ramp towards the keyboard target speed
+      const target = this.steerAxis * this.config.keyboardSpeed;
+      const maxChange = this.config.keyboardAcceleration * dt;
+      this.velocity += Math.max(-maxChange, Math.min(maxChange, target - this.velocity));
+    } else {
+      // Coast with inertia
+      this.velocity *= Math.pow(this.config.inertia, dt);
+    }
+
+    return this.velocity * dt;
+  }
+
+  getState(): RingControllerState {
+    return {
+      steerAxis: this.steerAxis,
+      dragging: this.dragging,
+      pendingDrag: this.pendingDrag,
+      velocity: this.velocity
+    };
+  }
+
+  setState(state: RingControllerState) {
+    this.steerAxis = state.steerAxis;
+    this.dragging = state.dragging;
+    this.pendingDrag = state.pendingDrag;
+    this.velocity = state.velocity;
+  }
+}
+
+export interface RingControllerState {
+  steerAxis: number;
+  dragging: boolean;
+  pendingDrag: number;
+  velocity: number;
+}
@@ -0,0 +1,920 @@
+import type RAPIER from "@dimforge/rapier2d-deterministic";
+import { Ball, Ring, KillBoundary, PowerUp, Prefab, Obstacle, Peg, Bumper, Paddle, MovingWall, type PowerUpKind, type BallBehaviorConfig, type BallConfig, type BallSpawnConfig, type ObstacleConfig, type ObstacleHit, type ObstacleState, type RingHit } from "./objects";
+import { GAME_CONFIG, type GameConfig } from "./config";
+import { Random, createSeed } from "./random";
+import { RingController } from "./RingController";
+import type { SimulationCommand } from "./commands";
+import { SIMULATION_STATE_VERSION, type SimulationState } from "./SimulationState";
+import { EventEmitter } from "./events";
+import { ScoreKeeper, type ScoreAward } from "./scoring";
+import { PowerUpEffects, type ActiveEffect } from "./PowerUpEffects";
+import { ObjectiveTracker, type ObjectiveProgress } from "./objectives";
+import { GameState } from "../types/GameState";
+
+/** Gameplay events, as seen by UI, audio or analytics */
+export interface GameplayEvents {
+  stateChanged: { state: GameState; previous: GameState };
+  ballSpawned: { ball: Ball };
+  /** A ball cleared the outermost ring */
+  ballEscaped: { ball: Ball; escaped: number; target: number };
+  /** A ball cleared any ring, inner ones included */
+  ringCleared: { ball: Ball; ringIndex: number; ringCount: number };
+  ballKilled: { ball: Ball };
+  ringHit: { ring: Ring; hit: RingHit };
+  obstacleHit: { obstacle: Obstacle; hit: ObstacleHit };
+  /** The displayed whole seconds left in the round changed */
+  timerTick: { remaining: number };
+  /** Points were awarded; `score` is the new total */
+  scoreChanged: { score: number; award: ScoreAward };
+  powerUpSpawned: { powerUp: PowerUp };
+  /** `ball` is missing if the collecting body wasn't a tracked ball */
+  powerUpCollected: { powerUp: PowerUp; ball?: Ball };
+  /** An effect started or ended, or the whole seconds left on one changed */
+  effectsChanged: { effects: ActiveEffect[] };
+  /** Progress towards the round's objectives changed */
+  objectivesChanged: { objectives: ObjectiveProgress };
+}
+
+export interface SimulationEvents extends GameplayEvents {
+  // Object lifecycle notifications (used by the renderer to attach/detach views)
+  objectAdded: Prefab;
+  objectRemoved: Prefab;
+  /** Every applied command with the step index it was applied at */
+  command: { command: SimulationCommand; step: number };
+  /** A fixed step has finished (e.g. for renderers sampling positions on the physics clock) */
+  stepped: { step: number };
+}
+
+/**
+ * Headless game simulation: owns the Rapier world, the ring arena, kill
+ * boundaries, ball spawning and the win/lose rules. It never touches PixiJS,
+ * `window` or wall-clock time, so a round can run in Node, a unit test or on
+ * a server by calling `step()` once per fixed timestep.
+ */
+export class Simulation {
+  world!: RAPIER.World;
+  objects: Prefab[] = [];
+  balls: Ball[] = [];
+  /** Killed balls kept disabled in the world, ready to be respawned */
+  private ballPool: Ball[] = [];
+  /** Balls killed during the current step; they join the pool once its events are processed */
+  private releasedBalls: Ball[] = [];
+  private ballPoolStats = { hits: 0, misses: 0 };
+  /** Uncollected power-ups in the arena */
+  powerUps: PowerUp[] = [];
+  /** Concentric rings, innermost first; balls escape once they clear the last one */
+  rings: Ring[] = [];
+  /** Obstacles inside the arena, indexed like `config.obstacles` */
+  obstacles: Obstacle[] = [];
+  killBoundary!: KillBoundary;
+  totalBallsSpawned: number = 0;
+  escapedBallsCount: number = 0;
+  /** Balls that crossed each ring this round, indexed like `rings` */
+  ringEscapeCounts: number[] = [];
+  private currentColorIndex: number = 0;
+  /** Seeded RNG for everything random in a round (spawn angles, colors) */
+  private rng: Random = new Random(0);
+  private eventQueue!: RAPIER.EventQueue;
+  private ringController: RingController;
+  private scoreKeeper: ScoreKeeper;
+  private objectiveTracker: ObjectiveTracker;
+  /** Objective progress last reported with `objectivesChanged` */
+  private reportedObjectives = '';
+  private powerUpEffects = new PowerUpEffects();
+  /** Seconds since the last power-up spawn */
+  private powerUpSpawnTimer = 0;
+
+  readonly events = new EventEmitter<SimulationEvents>();
+
+  // Game state management
+  private gameState: GameState = GameState.LOADING;
+
+  // Game timer
+  private gameTimer: number = 0;
+
+  /** Fixed steps run since the current round started */
+  private stepIndex: number = 0;
+  /** Step index at which the current round was won or lost */
+  private endStep: number | null = null;
+
+  /**
+   * @param R Loaded Rapier module (the caller decides how to load the WASM)
+   */
+  constructor(
+    private R: typeof RAPIER,
+    readonly config: GameConfig = GAME_CONFIG
+  ) {
+    this.ringEscapeCounts = config.rings.map(() => 0);
+    this.ringController = new RingController(config.ringControl);
+    this.scoreKeeper = new ScoreKeeper(config.scoring);
+    this.objectiveTracker = new ObjectiveTracker(
+      config.gameplay.objective ?? { type: 'escape', count: config.gameplay.targetEscapes }
+    );
+    this.createWorld();
+  }
+
+  /**
+   * Build a pristine world with the ring arena and kill boundaries.
+   * Rapier's broad phase keeps history, so every round starts from a fresh
+   * world to keep same-seed rounds bit-identical.
+   */
+  private createWorld() {
+    this.world = new this.R.World(this.config.physics.gravity);
+    this.world.integrationParameters.dt = this.config.physics.fixedDt;
+    this.eventQueue = new this.R.EventQueue(true);
+
+    // Create ring arena
+    this.rings = this.config.rings.map((ringConfig, index) => new Ring(this.world, this.R, ringConfig, index));
+    this.obstacles = this.config.obstacles.map((obstacleConfig, index) => this.createObstacle(obstacleConfig, index));
+
+    // Create kill boundaries
+    this.killBoundary = new KillBoundary(this.world, this.R, this.config.killBoundary);
+
+    this.addArenaObjects();
+  }
+
+  private addArenaObjects() {
+    // Listen for ring escapes (for scoring and spawning) and hits
+    this.rings.forEach(ring => {
+      ring.events.on('escape', ({ body, ring: escapedRing }) => {
+        this.handleBallRingEscape(body, escapedRing);
+      });
+      ring.events.on('hit', (hit) => {
+        if (ring.index === this.rings.length - 1) {
+          this.scoreKeeper.recordBounce(hit.ballHandle);
+        }
+        this.events.emit('ringHit', { ring, hit });
+      });
+      // Hit limits count every contact, not just the hits that get effects
+      ring.events.on('contact', () => {
+        if (this.gameState === GameState.PLAYING) {
+          this.objectiveTracker.recordRingHit();
+        }
+      });
+    });
+
+    this.obstacles.forEach(obstacle => {
+      obstacle.events.on('hit', (hit) => this.events.emit('obstacleHit', { obstacle, hit }));
+    });
+
+    // Listen for balls leaving the area (for destruction)
+    this.killBoundary.events.on('kill', ({ body }) => {
+      this.handleBallKill(body);
+    });
+
+    this.rings.forEach(ring => this.addObject(ring));
+    this.obstacles.forEach(obstacle => this.addObject(obstacle));
+    this.addObject(this.killBoundary);
+  }
+
+  private createObstacle(config: ObstacleConfig, index: number, state?: ObstacleState): Obstacle {
+    switch (config.type) {
+      case 'peg':
+        return new Peg(this.world, this.R, config, index, state);
+      case 'bumper':
+        return new Bumper(this.world, this.R, config, index, state);
+      case 'paddle':
+        return new Paddle(this.world, this.R, config, index, state);
+      case 'movingWall':
+        return new MovingWall(this.world, this.R, config, index, state);
+    }
+  }
+
+  private destroyWorld() {
+    this.objects.forEach(obj => this.events.emit('objectRemoved', obj));
+    this.objects = [];
+    this.balls = [];
+    this.ballPool = [];
+    this.releasedBalls = [];
+    this.powerUps = [];
+    this.obstacles = [];
+
+    this.eventQueue.free();
+    this.world.free();
+  }
+
+  /**
+   * Capture the whole simulation: a Rapier snapshot plus ball prefabs,
+   * ring/kill boundary tracking, counters, timer and RNG position
+   */
+  saveState(): SimulationState {
+    return {
+      version: SIMULATION_STATE_VERSION,
+      config: this.config,
+      world: this.world.takeSnapshot(),
+      rings: this.rings.map(ring => ring.saveState()),
+      obstacles: this.obstacles.map(obstacle => obstacle.saveState()),
+      killBoundary: this.killBoundary.saveState(),
+      balls: this.balls.map(ball => ({ config: ball.config, state: ball.saveState() })),
+      ballPool: this.ballPool.map(ball => ({ config: ball.config, state: ball.saveState() })),
+      powerUps: this.powerUps.map(powerUp => ({ kind: powerUp.kind, state: powerUp.saveState() })),
+      powerUpSpawnTimer: this.powerUpSpawnTimer,
+      powerUpEffects: this.powerUpEffects.getState(),
+      gameState: this.gameState,
+      gameTimer: this.gameTimer,
+      stepIndex: this.stepIndex,
+      endStep: this.endStep,
+      totalBallsSpawned: this.totalBallsSpawned,
+      escapedBallsCount: this.escapedBallsCount,
+      ringEscapeCounts: [...this.ringEscapeCounts],
+      currentColorIndex: this.currentColorIndex,
+      rng: { seed: this.rng.seed, state: this.rng.getState() },
+      ringControl: this.ringController.getState(),
+      score: this.scoreKeeper.getState(),
+      objectives: this.objectiveTracker.getState()
+    };
+  }
+
+  /**
+   * Replace the current world with a saved one and rebuild every prefab from
+   * it. Stepping afterwards continues exactly as the saved simulation would,
+   * provided this simulation was created with the saved `config`.
+   */
+  loadState(state: SimulationState) {
+    this.destroyWorld();
+
+    this.world = this.R.World.restoreSnapshot(state.world);
+    this.world.integrationParameters.dt = this.config.physics.fixedDt;
+    this.eventQueue = new this.R.EventQueue(true);
+
+    this.rings = this.config.rings.map((ringConfig, index) =>
+      new Ring(this.world, this.R, ringConfig, index, state.rings[index])
+    );
+    this.obstacles = this.config.obstacles.map((obstacleConfig, index) =>
+      this.createObstacle(obstacleConfig, index, state.obstacles[index])
+    );
+    this.killBoundary = new KillBoundary(this.world, this.R, this.config.killBoundary, state.killBoundary);
+    this.addArenaObjects();
+
+    state.balls.forEach(({ config, state: ballState }) => {
+      const ball = Ball.fromState(this.world, this.R, config, ballState);
+      this.balls.push(ball);
+      this.addObject(ball);
+    });
+    this.ballPool = state.ballPool.map(({ config, state: ballState }) => Ball.fromState(this.world, this.R, config, ballState));
+
+    state.powerUps.forEach(({ kind, state: powerUpState }) => {
+      this.addPowerUp(new PowerUp(this.world, this.R, kind, this.config.powerUps.radius, 0, 0, powerUpState));
+    });
+
+    this.gameTimer = state.gameTimer;
+    this.stepIndex = state.stepIndex;
+    this.endStep = state.endStep;
+    this.totalBallsSpawned = state.totalBallsSpawned;
+    this.escapedBallsCount = state.escapedBallsCount;
+    this.ringEscapeCounts = [...state.ringEscapeCounts];
+    this.currentColorIndex = state.currentColorIndex;
+    this.rng = Random.fromState(state.rng.seed, state.rng.state);
+    this.ringController.setState(state.ringControl);
+    this.scoreKeeper.setState(state.score);
+    this.objectiveTracker.setState(state.objectives);
+    this.powerUpSpawnTimer = state.powerUpSpawnTimer;
+    this.powerUpEffects.setState(state.powerUpEffects);
+    this.applyEffects();
+
+    if (this.gameState !== state.gameState) {
+      this.setGameState(state.gameState);
+    }
+    this.events.emit('timerTick', { remaining: this.getGameTimer() });
+    this.events.emit('effectsChanged', { effects: this.powerUpEffects.getActive() });
+    this.reportObjectives(true);
+  }
+
+  private addObject(obj: Prefab) {
+    this.objects.push(obj);
+    this.events.emit('objectAdded', obj);
+  }
+
+  /**
+   * Apply a recorded command, e.g. while playing back a replay
+   */
+  applyCommand(command: SimulationCommand) {
+    switch (command.type) {
+      case 'start':
+        this.startGame(command.seed);
+        break;
+      case 'steerRing':
+        this.steerRing(command.axis);
+        break;
+      case 'dragRing':
+        this.dragRing(command.angle);
+        break;
+      case 'releaseRing':
+        this.releaseRing();
+        break;
+    }
+  }
+
+  /**
+   * Hold a steering direction (-1..1); 0 lets the ring coast
+   */
+  steerRing(axis: number) {
+    this.ringController.steer(axis);
+    this.events.emit('command', { command: { type: 'steerRing', axis }, step: this.stepIndex });
+  }
+
+  /**
+   * Rotate the ring along with a pointer dragged by `angle` radians around its center
+   */
+  dragRing(angle: number) {
+    this.ringController.drag(angle);
+    this.events.emit('command', { command: { type: 'dragRing', angle }, step: this.stepIndex });
+  }
+
+  /**
+   * End a drag; the ring keeps the drag's speed and slows down with inertia
+   */
+  releaseRing() {
+    this.ringController.release();
+    this.events.emit('command', { command: { type: 'releaseRing' }, step: this.stepIndex });
+  }
+
+  getStepIndex(): number {
+    return this.stepIndex;
+  }
+
+  getEndStep(): number | null {
+    return this.endStep;
+  }
+
+  /**
+   * Advance the simulation by exactly one fixed timestep
+   */
+  step() {
+    // A paused round is frozen: no physics, no timer, no step index
+    if (this.gameState === GameState.PAUSED) return;
+
+    const dt = this.config.physics.fixedDt;
+
+    // Update game timer if playing (a freeze power-up holds it)
+    if (this.gameState === GameState.PLAYING) {
+      if (!this.powerUpEffects.isActive('freezeTimer')) {
+        const previousSeconds = this.getGameTimer();
+        this.gameTimer -= dt;
+        if (this.getGameTimer() !== previousSeconds) {
+          this.events.emit('timerTick', { remaining: this.getGameTimer() });
+        }
+      }
+      this.stepPowerUps(dt);
+      this.objectiveTracker.step(dt, this.countBallsInside());
+      this.reportObjectives();
+      this.checkWinCondition();
+    }
+
+    // Step the rings (handle spinning and player control, which turns them all together)
+    const controlRotation = this.ringController.step(dt);
+    this.rings.forEach(ring => ring.step(dt, controlRotation));
+    this.obstacles.forEach(obstacle => obstacle.step(dt));
+    this.applyMagnets(dt);
+
+    this.world.step(this.eventQueue);
+    this.stepIndex++;
+
+    // Process collision events from the shared event queue
+    this.eventQueue.drainCollisionEvents((h1, h2, started) => {
+      // Balls killed earlier in this drain stay in the world, but are out of play
+      if (this.isReleased(h1) || this.isReleased(h2)) return;
+
+      // Every Ring and the KillBoundary check if collision involves their escape/kill sensors; obstacles check for hits
+      this.rings.forEach(ring => ring.processCollisionEvent(h1, h2, started));
+      this.killBoundary.processCollisionEvent(h1, h2, started);
+      this.obstacles.forEach(obstacle => obstacle.processCollisionEvent(h1, h2, started));
+      // Copy, as collecting removes the power-up; nothing is collected once the round is over
+      if (this.gameState === GameState.PLAYING) {
+        [...this.powerUps].forEach(powerUp => powerUp.processCollisionEvent(h1, h2, started));
+      }
+    });
+
+    this.ballPool.push(...this.releasedBalls);
+    this.releasedBalls = [];
+
+    this.events.emit('stepped', { step: this.stepIndex });
+  }
+
+  private isReleased(colliderHandle: number): boolean {
+    if (this.releasedBalls.length === 0) return false;
+
+    const body = this.world.getCollider(colliderHandle)?.parent();
+    return !!body && this.releasedBalls.some(ball => ball.body.handle === body.handle);
+  }
+
+  /**
+   * Ball pool reuse counts and the number of balls waiting in the pool
+   */
+  getBallPoolStats(): { hits: number; misses: number; pooled: number } {
+    return { ...this.ballPoolStats, pooled: this.ballPool.length };
+  }
+
+  /**
+   * Count down active effects, expire stale power-ups and spawn new ones
+   */
+  private stepPowerUps(dt: number) {
+    const wholeSeconds = () => this.powerUpEffects.getActive().map(effect => Math.ceil(effect.remaining)).join();
+    const previousSeconds = wholeSeconds();
+    const expired = this.powerUpEffects.step(dt);
+    if (expired.length > 0) {
+      this.applyEffects();
+    }
+    if (expired.length > 0 || wholeSeconds() !== previousSeconds) {
+      this.events.emit('effectsChanged', { effects: this.powerUpEffects.getActive() });
+    }
+
+    const config = this.config.powerUps;
+    this.powerUps
+      .filter(powerUp => {
+        powerUp.step(dt);
+        return powerUp.getAge() >= config.lifetime;
+      })
+      .forEach(powerUp => this.removePowerUp(powerUp));
+
+    if (!config.enabled) return;
+
+    this.powerUpSpawnTimer += dt;
+    if (this.powerUpSpawnTimer >= config.interval) {
+      this.powerUpSpawnTimer -= config.interval;
+      if (this.powerUps.length < config.maxActive) {
+        this.spawnPowerUp();
+      }
+    }
+  }
+
+  private spawnPowerUp() {
+    const config = this.config.powerUps;
+    const { kind } = this.pickWeighted(config.types);
+
+    // Uniform over the spawn disc
+    const angle = this.rng.range(0, 2 * Math.PI);
+    const distance = config.spawnRadius * Math.sqrt(this.rng.next());
+
+    const powerUp = new PowerUp(
+      this.world,
+      this.R,
+      kind,
+      config.radius,
+      distance * Math.cos(angle),
+      distance * Math.sin(angle)
+    );
+    this.addPowerUp(powerUp);
+    this.events.emit('powerUpSpawned', { powerUp });
+  }
+
+  private addPowerUp(powerUp: PowerUp) {
+    powerUp.events.on('collect', ({ body }) => this.handlePowerUpCollect(powerUp, body));
+    this.powerUps.push(powerUp);
+    this.addObject(powerUp);
+  }
+
+  private removePowerUp(powerUp: PowerUp) {
+    this.powerUps.splice(this.powerUps.indexOf(powerUp), 1);
+    this.objects.splice(this.objects.indexOf(powerUp), 1);
+    this.events.emit('objectRemoved', powerUp);
+    this.world.removeRigidBody(powerUp.body);
+  }
+
+  private handlePowerUpCollect(powerUp: PowerUp, body: RAPIER.RigidBody) {
+    const ball = this.findBall(body);
+    this.removePowerUp(powerUp);
+    this.activatePowerUp(powerUp.kind);
+    this.events.emit('powerUpCollected', { powerUp, ball });
+  }
+
+  private activatePowerUp(kind: PowerUpKind) {
+    const config = this.config.powerUps;
+
+    if (kind === 'extraBalls') {
+      for (let i = 0; i < config.extraBalls.count; i++) {
+        this.spawnBall(this.config.spawning.initial, false);
+      }
+      return;
+    }
+
+    this.powerUpEffects.activate(kind, config[kind].duration);
+    this.applyEffects();
+    this.events.emit('effectsChanged', { effects: this.powerUpEffects.getActive() });
+  }
+
+  /**
+   * Set ring gap and spin scales from the active effects
+   */
+  private applyEffects() {
+    const { widenGap, slowSpin } = this.config.powerUps;
+    const gapScale = this.powerUpEffects.isActive('widenGap') ? widenGap.scale : 1;
+    const spinScale = this.powerUpEffects.isActive('slowSpin') ? slowSpin.scale : 1;
+
+    this.rings.forEach(ring => {
+      ring.setGapScale(gapScale);
+      ring.setSpinScale(spinScale);
+    });
+  }
+
+  /**
+   * Active power-up effects with their remaining seconds
+   */
+  public getActiveEffects(): ActiveEffect[] {
+    return this.powerUpEffects.getActive();
+  }
+
+  /**
+   * @param countTowardsLimit Whether the ball uses up one of `gameplay.maxBalls`
+   */
+  private spawnBall(spawnConfig: BallSpawnConfig, countTowardsLimit: boolean = true): Ball {
+    const velocity = this.calculateVelocity(spawnConfig);
+    const type = this.pickBallType(spawnConfig);
+
+    const ball = this.createBall(type, spawnConfig.position.x, spawnConfig.position.y, velocity);
+    if (countTowardsLimit) {
+      this.totalBallsSpawned++;
+    }
+
+    return ball;
+  }
+
+  /**
+   * Add a ball of a type from `config.ballTypes`
+   */
+  private createBall(type: string, x: number, y: number, velocity: { x: number; y: number }): Ball {
+    const ballType = this.config.ballTypes[type];
+    if (!ballType) {
+      throw new Error(`Unknown ball type "${type}"`);
+    }
+
+    const ballConfig: BallConfig = {
+      ...this.config.ball,
+      ...ballType,
+      type,
+      color: ballType.color ?? this.pickBallColor()
+    };
+
+    // Reuse a killed ball's body when one is pooled
+    const pooled = this.ballPool.pop();
+    let ball: Ball;
+    if (pooled) {
+      pooled.respawn(ballConfig, x, y, velocity);
+      ball = pooled;
+      this.ballPoolStats.hits++;
+    } else {
+      ball = new Ball(this.world, this.R, ballConfig, x, y, velocity);
+      this.ballPoolStats.misses++;
+    }
+
+    this.balls.push(ball);
+    this.addObject(ball);
+    this.events.emit('ballSpawned', { ball });
+
+    return ball;
+  }
+
+  private pickBallType(spawnConfig: BallSpawnConfig): string {
+    const types = spawnConfig.types;
+    if (!types || types.length === 0) return this.config.ball.type;
+    if (types.length === 1) return types[0].type;
+
+    return this.pickWeighted(types).type;
+  }
+
+  /**
+   * Weighted draw from the seeded RNG
+   */
+  private pickWeighted<T extends { weight: number }>(choices: T[]): T {
+    const total = choices.reduce((sum, { weight }) => sum + weight, 0);
+    let pick = this.rng.next() * total;
+    for (const choice of choices) {
+      pick -= choice.weight;
+      if (pick < 0) return choice;
+    }
+    return choices[choices.length - 1];
+  }
+
+  private pickBallColor(): number {
+    const colors = this.config.ballColors;
+
+    if (this.config.spawning.colorOrder === 'random') {
+      return colors[this.rng.int(colors.length)];
+    }
+
+    // Next color in rotation
+    const color = colors[this.currentColorIndex];
+    this.currentColorIndex = (this.currentColorIndex + 1) % colors.length;
+    return color;
+  }
+
+  private calculateVelocity(spawnConfig: BallSpawnConfig): { x: number; y: number } {
+    if ('x' in spawnConfig.velocity) {
+      return spawnConfig.velocity;
+    }
+
+    let angle = spawnConfig.velocity.angle;
+    if (spawnConfig.angleRange) {
+      const { min, max } = spawnConfig.angleRange;
+      angle = this.rng.range(min, max);
+    }
+
+    const magnitude = spawnConfig.velocity.magnitude;
+    return {
+      x: magnitude * Math.cos(angle),
+      y: magnitude * Math.sin(angle)
+    };
+  }
+
+  private spawnInitialBalls() {
+    const { initial } = this.config.spawning;
+    const count = Math.min(initial.count ?? 1, this.config.gameplay.maxBalls);
+    for (let i = 0; i < count; i++) {
+      this.spawnBall(initial);
+    }
+  }
+
+  private spawnRingEscapeBalls() {
+    const { maxBalls } = this.config.gameplay;
+
+    // Check if we're at the ball limit
+    if (this.totalBallsSpawned >= maxBalls) {
+      return;
+    }
+
+    // Calculate how many balls we can spawn without exceeding the limit
+    const ballsToSpawn = Math.min(
+      this.config.spawning.onRingEscape.count,
+      maxBalls - this.totalBallsSpawned
+    );
+
+    for (let i = 0; i < ballsToSpawn; i++) {
+      this.spawnBall(this.config.spawning.onRingEscape);
+    }
+  }
+
+  private findBall(body: RAPIER.RigidBody): Ball | undefined {
+    return this.balls.find(ball => ball.body.handle === body.handle);
+  }
+
+  /**
+   * Pull balls towards every magnetic ball they are in range of
+   */
+  private applyMagnets(dt: number) {
+    this.balls.forEach(magnet => {
+      const behavior = magnet.config.behavior;
+      if (behavior?.type !== 'magnetic') return;
+
+      const center = magnet.body.translation();
+      this.balls.forEach(other => {
+        if (other === magnet) return;
+
+        const p = other.body.translation();
+        const dx = center.x - p.x;
+        const dy = center.y - p.y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance === 0 || distance > behavior.range) return;
+
+        // Linear falloff; scaled by mass so light and heavy balls are pulled alike
+        const impulse = behavior.strength * (1 - distance / behavior.range) * other.body.mass() * dt / distance;
+        other.body.applyImpulse({ x: dx * impulse, y: dy * impulse }, true);
+      });
+    });
+  }
+
+  /**
+   * Burst a splitting ball into fragments fanned out around its heading
+   */
+  private splitBall(ball: Ball, ring: Ring, split: Extract<BallBehaviorConfig, { type: 'split' }>) {
+    const position = ball.body.translation();
+    const velocity = ball.body.linvel();
+    const heading = Math.atan2(velocity.y, velocity.x);
+
+    for (let i = 0; i < split.count; i++) {
+      const angle = heading + (i - (split.count - 1) / 2) * split.spread;
+      const fragment = this.createBall(split.childType, position.x, position.y, {
+        x: split.speed * Math.cos(angle),
+        y: split.speed * Math.sin(angle)
+      });
+
+      // Fragments start outside the ring they split at, so they don't clear it (or inner rings) again
+      this.rings
+        .filter(other => other.index <= ring.index)
+        .forEach(other => other.markEscaped(fragment.body.handle));
+    }
+  }
+
+  private handleBallRingEscape(escapedBall: RAPIER.RigidBody, ring: Ring) {
+    const ball = this.findBall(escapedBall);
+    // Balls still escaping after the round ended don't count or spawn more
+    const playing = this.gameState === GameState.PLAYING;
+    if (playing) {
+      this.ringEscapeCounts[ring.index]++;
+    }
+    if (ball) {
+      this.events.emit('ringCleared', { ball, ringIndex: ring.index, ringCount: this.rings.length });
+
+      if (ball.config.behavior?.type === 'split') {
+        this.splitBall(ball, ring, ball.config.behavior);
+      }
+    }
+
+    // Only clearing the outermost ring counts as an escape
+    if (ring.index !== this.rings.length - 1 || !playing) return;
+
+    // Ring escape means ball escaped through the gap - increment counter
+    this.escapedBallsCount++;
+    if (ball) {
+      this.events.emit('ballEscaped', {
+        ball,
+        escaped: this.escapedBallsCount,
+        target: this.config.gameplay.targetEscapes
+      });
+    }
+
+    this.objectiveTracker.recordEscape(ball?.config.color ?? 0);
+    const time = this.stepIndex * this.config.physics.fixedDt;
+    this.scoreKeeper.escape(escapedBall.handle, time).forEach(award => this.emitScore(award));
+
+    // Ring escape also triggers spawning of new balls
+    this.spawnRingEscapeBalls();
+  }
+
+  private handleBallKill(killedBall: RAPIER.RigidBody) {
+    const ballHandle = killedBall.handle;
+
+    // Escaped balls leaving the area are expected; any other ball is lost
+    if (this.gameState === GameState.PLAYING && !this.rings[this.rings.length - 1].hasEscaped(ballHandle)) {
+      this.objectiveTracker.recordKill();
+    }
+
+    // Remove the killed ball
+    const killedIndex = this.balls.findIndex(ball => ball.body.handle === ballHandle);
+    if (killedIndex !== -1) {
+      const killedBallPrefab = this.balls[killedIndex];
+      this.balls.splice(killedIndex, 1);
+
+      const prefabIndex = this.objects.indexOf(killedBallPrefab);
+      if (prefabIndex !== -1) {
+        this.objects.splice(prefabIndex, 1);
+      }
+
+      this.events.emit('objectRemoved', killedBallPrefab);
+      this.events.emit('ballKilled', { ball: killedBallPrefab });
+
+      if (this.ballPool.length + this.releasedBalls.length < this.config.pooling.maxBalls) {
+        killedBallPrefab.deactivate();
+        this.releasedBalls.push(killedBallPrefab);
+      } else {
+        this.world.removeRigidBody(killedBall);
+      }
+    } else {
+      this.world.removeRigidBody(killedBall);
+    }
+
+    // Clean up the ball handle from the rings' escape tracking
+    this.rings.forEach(ring => ring.cleanupEscapedBall(ballHandle));
+    this.obstacles.forEach(obstacle => obstacle.cleanupBall(ballHandle));
+
+    // Clean up the ball handle from kill boundary tracking
+    this.killBoundary.cleanupKilledBall(ballHandle);
+    this.scoreKeeper.removeBall(ballHandle);
+  }
+
+  /**
+   * Balls that haven't cleared the outermost ring
+   */
+  private countBallsInside(): number {
+    const outerRing = this.rings[this.rings.length - 1];
+    return this.balls.filter(ball => !outerRing.hasEscaped(ball.body.handle)).length;
+  }
+
+  /**
+   * Emit `objectivesChanged` if progress moved since it was last reported
+   */
+  private reportObjectives(force: boolean = false) {
+    const objectives = this.objectiveTracker.getProgress(this.isTimeUp());
+    const serialized = JSON.stringify(objectives);
+    if (!force && serialized === this.reportedObjectives) return;
+
+    this.reportedObjectives = serialized;
+    this.events.emit('objectivesChanged', { objectives });
+  }
+
+  /**
+   * A round is running or ended and its clock reached zero
+   */
+  private isTimeUp(): boolean {
+    return this.gameState !== GameState.LOADING && this.gameTimer <= 0;
+  }
+
+  private emitScore(award: ScoreAward) {
+    this.events.emit('scoreChanged', { score: this.scoreKeeper.getScore(), award });
+  }
+
+  // Public methods for game state management
+
+  /**
+   * Start a new round. Two rounds started with the same seed play out
+   * identically; omit it to get a fresh random seed.
+   */
+  public startGame(seed: number = createSeed()): void {
+    if (this.gameState !== GameState.PLAYING) {
+      const previous = this.gameState;
+      this.resetGame();
+      this.rng = new Random(seed);
+      this.stepIndex = 0;
+      this.endStep = null;
+      this.gameState = GameState.PLAYING;
+      this.gameTimer = this.config.gameplay.timeLimit;
+      this.spawnInitialBalls();
+      this.events.emit('command', { command: { type: 'start', seed }, step: this.stepIndex });
+      this.events.emit('stateChanged', { state: this.gameState, previous });
+      this.events.emit('timerTick', { remaining: this.getGameTimer() });
+      this.events.emit('effectsChanged', { effects: [] });
+      this.reportObjectives(true);
+    }
+  }
+
+  /**
+   * Freeze a round in progress until `resume()`
+   */
+  public pause(): void {
+    if (this.gameState === GameState.PLAYING) {
+      this.setGameState(GameState.PAUSED);
+    }
+  }
+
+  public resume(): void {
+    if (this.gameState === GameState.PAUSED) {
+      this.setGameState(GameState.PLAYING);
+    }
+  }
+
+  private setGameState(state: GameState) {
+    const previous = this.gameState;
+    this.gameState = state;
+    this.events.emit('stateChanged', { state, previous });
+  }
+
+  public getGameState(): GameState {
+    return this.gameState;
+  }
+
+  public getGameTimer(): number {
+    return Math.max(0, Math.ceil(this.gameTimer));
+  }
+
+  public getGameProgress(): { escaped: number; target: number; rings: number[] } {
+    return {
+      escaped: this.escapedBallsCount,
+      target: this.config.gameplay.targetEscapes,
+      rings: [...this.ringEscapeCounts]
+    };
+  }
+
+  public getScore(): number {
+    return this.scoreKeeper.getScore();
+  }
+
+  public getObjectives(): ObjectiveProgress {
+    return this.objectiveTracker.getProgress(this.isTimeUp());
+  }
+
+  public getGameConfig(): { targetEscapes: number; timeLimit: number; seed: number; levelId?: string } {
+    return {
+      levelId: this.config.levelId,
+      targetEscapes: this.config.gameplay.targetEscapes,
+      timeLimit: this.config.gameplay.timeLimit,
+      seed: this.rng.seed
+    };
+  }
+
+  private resetGame(): void {
+    // Reset game counters
+    this.totalBallsSpawned = 0;
+    this.escapedBallsCount = 0;
+    this.ringEscapeCounts = this.config.rings.map(() => 0);
+    this.currentColorIndex = 0;
+    this.gameTimer = 0;
+    this.ringController.reset();
+    this.scoreKeeper.reset();
+    this.objectiveTracker.reset();
+    this.powerUpEffects.reset();
+    this.powerUpSpawnTimer = 0;
+
+    // Replace the world (and every ball in it) with a pristine one
+    this.destroyWorld();
+    this.createWorld();
+  }
+
+  private checkWinCondition(): void {
+    if (this.gameState === GameState.PLAYING) {
+      const status = this.objectiveTracker.getStatus(this.isTimeUp());
+      if (status === 'complete') {
+        this.endStep = this.stepIndex;
+        // Award the time bonus before announcing the win, so the final score is known
+        this.emitScore(this.scoreKeeper.timeBonus(this.getGameTimer()));
+        this.setGameState(GameState.WIN);
+      } else if (status === 'failed' || this.isTimeUp()) {
+        this.endStep = this.stepIndex;
+        this.setGameState(GameState.GAME_OVER);
+      }
+    }
+  }
+
+  destroy() {
+    this.destroyWorld();
+    this.events.clear();
+  }
+}
@@ -0,0 +1,77 @@
+import type { BallConfig, KillBoundaryState, ObstacleState, PowerUpKind, PowerUpState, PrefabState, RingState } from "./objects";
+import type { RingControllerState } from "./RingController";
+import type { ScoreKeeperState } from "./scoring";
+import type { PowerUpEffectsState } from "./PowerUpEffects";
+import type { ObjectiveTrackerState } from "./objectives";
+import type { GameConfig } from "./config";
+import { GameState } from "../types/GameState";
+
+export const SIMULATION_STATE_VERSION = 14;
+
+/**
+ * A complete save of a simulation: the Rapier world snapshot plus all the
+ * engine-side bookkeeping that lives outside of it
+ */
+export interface SimulationState {
+  version: number;
+  /** Configuration the saved simulation was running with */
+  config: GameConfig;
+  /** Bytes from `World.takeSnapshot()` */
+  world: Uint8Array;
+  rings: RingState[];
+  obstacles: ObstacleState[];
+  killBoundary: KillBoundaryState;
+  balls: { config: BallConfig; state: PrefabState }[];
+  /** Killed balls kept disabled in the world for reuse */
+  ballPool: { config: BallConfig; state: PrefabState }[];
+  powerUps: { kind: PowerUpKind; state: PowerUpState }[];
+  powerUpSpawnTimer: number;
+  powerUpEffects: PowerUpEffectsState;
+  gameState: GameState;
+  gameTimer: number;
+  stepIndex: number;
+  endStep: number | null;
+  totalBallsSpawned: number;
+  escapedBallsCount: number;
+  ringEscapeCounts: number[];
+  currentColorIndex: number;
+  rng: { seed: number; state: number };
+  ringControl: RingControllerState;
+  score: ScoreKeeperState;
+  objectives: ObjectiveTrackerState;
+}
+
+/**
+ * Serialize a state to a JSON string (the world snapshot is base64 encoded),
+ * e.g. to keep a round in localStorage across page reloads
+ */
+export function serializeSimulationState(state: SimulationState): string {
+  let binary = '';
+  state.world.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+
+  return JSON.stringify({ ...state, world: btoa(binary) });
+}
+
+/**
+ * Parse a state produced by `serializeSimulationState`, throwing on malformed input
+ */
+export function deserializeSimulationState(data: string): SimulationState {
+  const parsed = JSON.parse(data);
+
+  if (!parsed || parsed.version !== SIMULATION_STATE_VERSION) {
+    throw new Error(`Unsupported simulation state version: ${parsed?.version}`);
+  }
+  if (typeof parsed.world !== 'string' || !parsed.config || !Array.isArray(parsed.rings) || !parsed.killBoundary || !Array.isArray(parsed.balls)) {
+    throw new Error('Invalid simulation state: missing world, config, rings, kill boundary or balls');
+  }
+
+  const binary = atob(parsed.world);
+  const world = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    world[i] = binary.charCodeAt(i);
+  }
+
+  return { ...parsed, world } as SimulationState;
+}
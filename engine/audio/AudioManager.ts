@@ -0,0 +1,243 @@
+import type { AudioConfig } from "../objects";
+import type { EventEmitter } from "../events";
+import type { GameplayEvents } from "../Simulation";
+import { GameState } from "../../types/GameState";
+
+/** Pentatonic steps (semitones) the escape chime climbs through */
+const CHIME_STEPS = [0, 2, 4, 7, 9, 12, 14, 16, 19, 21];
+
+/** Browser events that count as a user gesture for unlocking audio */
+const UNLOCK_EVENTS = ['pointerdown', 'keydown', 'touchend'] as const;
+
+const semitones = (base: number, steps: number) => base * Math.pow(2, steps / 12);
+
+interface Tone {
+  frequency: number;
+  type: OscillatorType;
+  /** Peak gain before the master volume */
+  gain: number;
+  /** Seconds from now until the tone starts */
+  delay?: number;
+  /** Seconds until the tone has decayed */
+  duration: number;
+  /** Frequency the tone glides to over its duration */
+  glideTo?: number;
+}
+
+/**
+ * Synthesizes all sound effects with Web Audio oscillators, so no audio
+ * assets need to be shipped. Listens to gameplay events: ring and obstacle
+ * hits play an impact whose pitch and volume follow the impact intensity
+ * (bumpers pop instead), escapes play a rising chime, collected power-ups
+ * play a sweep and the end of a round plays a win or lose stinger.
+ *
+ * The AudioContext is only created on the first user gesture to respect
+ * browser autoplay rules.
+ */
+export class AudioManager {
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private muted = false;
+  private activeVoices = 0;
+  /** Impact sounds currently playing per ball handle */
+  private ballVoices = new Map<number, number>();
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(private config: AudioConfig) {
+    UNLOCK_EVENTS.forEach(type => window.addEventListener(type, this.unlock));
+  }
+
+  /**
+   * Play sounds for the gameplay events of `events`
+   */
+  attach(events: EventEmitter<GameplayEvents>) {
+    this.unsubscribers.push(
+      events.on('ringHit', ({ hit }) => {
+        this.playImpact(hit.intensity, hit.ringIndex, hit.ballHandle);
+      }),
+      events.on('obstacleHit', ({ obstacle, hit }) => {
+        if (obstacle.config.type === 'bumper') {
+          this.playBumper();
+        } else {
+          this.playImpact(hit.intensity, 0, hit.ballHandle);
+        }
+      }),
+      events.on('ringCleared', ({ ringIndex, ringCount }) => {
+        // The outermost ring is covered by the escape chime
+        if (ringIndex < ringCount - 1) {
+          this.playTones([{ frequency: semitones(660, ringIndex * 2), type: 'sine', gain: 0.25, duration: 0.25 }]);
+        }
+      }),
+      events.on('ballEscaped', ({ escaped }) => {
+        this.playChime(escaped);
+      }),
+      events.on('powerUpCollected', () => {
+        this.playPowerUp();
+      }),
+      events.on('stateChanged', ({ state, previous }) => {
+        if (previous !== GameState.PLAYING) return;
+        if (state === GameState.WIN) {
+          this.playWin();
+        } else if (state === GameState.GAME_OVER) {
+          this.playLose();
+        }
+      })
+    );
+  }
+
+  setMuted(muted: boolean) {
+    this.muted = muted;
+    if (this.master && this.context) {
+      this.master.gain.setTargetAtTime(muted ? 0 : this.config.volume, this.context.currentTime, 0.02);
+    }
+  }
+
+  isMuted(): boolean {
+    return this.muted;
+  }
+
+  private unlock = () => {
+    if (!this.config.enabled) return;
+
+    if (!this.context) {
+      const AudioContextClass = window.AudioContext ?? (window as any).webkitAudioContext;
+      if (!AudioContextClass) return;
+
+      this.context = new AudioContextClass() as AudioContext;
+      this.master = this.context.createGain();
+      this.master.gain.value = this.muted ? 0 : this.config.volume;
+      this.master.connect(this.context.destination);
+    }
+
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {
+        // Still locked; the next gesture tries again
+      });
+    }
+  };
+
+  private canPlay(): boolean {
+    return !!this.context && this.context.state === 'running' && !this.muted &&
+      this.activeVoices < this.config.maxVoices;
+  }
+
+  private playImpact(intensity: number, ringIndex: number, ballHandle: number) {
+    if (intensity < this.config.minImpactIntensity || !this.canPlay()) return;
+
+    const voices = this.ballVoices.get(ballHandle) ?? 0;
+    if (voices >= this.config.maxVoicesPerBall) return;
+
+    // Faster impacts are louder and higher; outer rings sound lower
+    const frequency = (180 + 520 * intensity) / (1 + ringIndex * 0.25);
+    this.ballVoices.set(ballHandle, voices + 1);
+    this.playTones([
+      { frequency, type: 'triangle', gain: 0.15 + 0.45 * intensity, duration: 0.08 + 0.12 * intensity, glideTo: frequency * 0.7 }
+    ], () => {
+      const remaining = (this.ballVoices.get(ballHandle) ?? 1) - 1;
+      if (remaining > 0) {
+        this.ballVoices.set(ballHandle, remaining);
+      } else {
+        this.ballVoices.delete(ballHandle);
+      }
+    });
+  }
+
+  private playBumper() {
+    this.playTones([
+      { frequency: 220, type: 'square', gain: 0.2, duration: 0.12, glideTo: 440 }
+    ]);
+  }
+
+  private playPowerUp() {
+    // Quick upward sweep with a sparkle on top
+    this.playTones([
+      { frequency: 440, type: 'square', gain: 0.12, duration: 0.2, glideTo: 1320 },
+      { frequency: 1760, type: 'sine', gain: 0.15, delay: 0.12, duration: 0.3 }
+    ]);
+  }
+
+  private playChime(escaped: number) {
+    // Each escape rings a step higher, wrapping after an octave and a half
+    const step = CHIME_STEPS[(escaped - 1) % CHIME_STEPS.length];
+    const frequency = semitones(880, step);
+    this.playTones([
+      { frequency, type: 'sine', gain: 0.35, duration: 0.6 },
+      { frequency: frequency * 2, type: 'sine', gain: 0.12, duration: 0.4 },
+      { frequency: frequency * 1.5, type: 'sine', gain: 0.2, delay: 0.07, duration: 0.5 }
+    ]);
+  }
+
+  private playWin() {
+    // Major arpeggio up to the octave
+    this.playTones([0, 4, 7, 12].map((step, i) => ({
+      frequency: semitones(523.25, step),
+      type: 'square' as const,
+      gain: 0.12,
+      delay: i * 0.1,
+      duration: i === 3 ? 0.8 : 0.25
+    })));
+  }
+
+  private playLose() {
+    // Falling minor line with a sagging last note
+    this.playTones([7, 3, 0].map((step, i) => ({
+      frequency: semitones(220, step),
+      type: 'sawtooth' as const,
+      gain: 0.1,
+      delay: i * 0.18,
+      duration: i === 2 ? 0.9 : 0.3,
+      glideTo: i === 2 ? semitones(220, -2) : undefined
+    })));
+  }
+
+  /**
+   * Schedule tones as one voice; `onEnded` runs once they have all finished
+   */
+  private playTones(tones: Tone[], onEnded?: () => void) {
+    if (!this.canPlay()) return;
+    const context = this.context!;
+    const now = context.currentTime;
+
+    this.activeVoices++;
+    let pending = tones.length;
+
+    tones.forEach(tone => {
+      const start = now + (tone.delay ?? 0);
+      const end = start + tone.duration;
+
+      const oscillator = context.createOscillator();
+      oscillator.type = tone.type;
+      oscillator.frequency.setValueAtTime(tone.frequency, start);
+      if (tone.glideTo !== undefined) {
+        oscillator.frequency.exponentialRampToValueAtTime(tone.glideTo, end);
+      }
+
+      // Fast attack, exponential decay
+      const envelope = context.createGain();
+      envelope.gain.setValueAtTime(0.0001, start);
+      envelope.gain.exponentialRampToValueAtTime(tone.gain, start + 0.005);
+      envelope.gain.exponentialRampToValueAtTime(0.0001, end);
+
+      oscillator.connect(envelope);
+      envelope.connect(this.master!);
+      oscillator.start(start);
+      oscillator.stop(end + 0.02);
+      oscillator.onended = () => {
+        oscillator.disconnect();
+        envelope.disconnect();
+        if (--pending === 0) {
+          this.activeVoices--;
+          onEnded?.();
+        }
+      };
+    });
+  }
+
+  destroy() {
+    UNLOCK_EVENTS.forEach(type => window.removeEventListener(type, this.unlock));
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.context?.close().catch(() => {});
+    this.context = null;
+  }
+}
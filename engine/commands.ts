@@ -0,0 +1,13 @@
+/**
+ * Everything that can change the course of a round from outside the
+ * simulation. Commands are applied between fixed steps, so recording them
+ * with the step index they were applied at is enough to replay a round.
+ */
+export type SimulationCommand =
+  | { type: 'start'; seed: number }
+  /** Held steering direction from the keyboard (-1..1, 0 to let go) */
+  | { type: 'steerRing'; axis: number }
+  /** Radians dragged around the ring center since the previous drag command */
+  | { type: 'dragRing'; angle: number }
+  /** Pointer lifted: the ring coasts on with inertia */
+  | { type: 'releaseRing' };
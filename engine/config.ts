@@ -0,0 +1,367 @@
+import { BALL_GROUP, GHOST_BALL_GROUP, interactionGroups, type BallConfig, type BallTypeConfig, type RingConfig, type KillBoundaryConfig, type BallColorOrder, type RingControlConfig, type BallSpawnConfig, type AudioConfig, type CameraConfig, type ParticleEffectConfig, type PoolingConfig, type BallRenderingConfig, type ScoringConfig, type ObjectiveConfig, type PowerUpConfig, type ObstacleConfig, type ObstacleDefaults } from "./objects";
+
+export interface GameConfig {
+  debug: boolean;
+  /** Level this configuration was built from, if any */
+  levelId?: string;
+  physics: {
+    gravity: { x: number; y: number };
+    fixedDt: number;
+  };
+  gameplay: {
+    maxBalls: number;
+    targetEscapes: number;
+    timeLimit: number; // seconds
+    /** Win/lose rules; escaping `targetEscapes` balls when not set. Running out of time always loses. */
+    objective?: ObjectiveConfig;
+  };
+  ballColors: number[];
+  ball: BallConfig;
+  /** Ball variants spawn rules can pick from, applied on top of `ball` */
+  ballTypes: Record<string, BallTypeConfig>;
+  /** Concentric rings ordered from innermost to outermost */
+  rings: RingConfig[];
+  ringControl: RingControlConfig;
+  audio: AudioConfig;
+  camera: CameraConfig;
+  /** Particle effects by name: 'dust-fall' for hits, 'escape-burst', 'kill-poof', 'spawn-sparkle' and 'win-confetti' */
+  particleEffects: Record<string, ParticleEffectConfig>;
+  scoring: ScoringConfig;
+  powerUps: PowerUpConfig;
+  /** Pegs, bumpers, paddles and moving walls inside the arena */
+  obstacles: ObstacleConfig[];
+  obstacleDefaults: ObstacleDefaults;
+  spawning: {
+    colorOrder: BallColorOrder;
+    /** `count` balls (1 when not set) are launched when the round starts */
+    initial: BallSpawnConfig & { count?: number };
+    onRingEscape: BallSpawnConfig & { count: number };
+  };
+  killBoundary: KillBoundaryConfig;
+  pooling: PoolingConfig;
+  ballRendering: BallRenderingConfig;
+}
+
+// Centralized Game Configuration
+export const GAME_CONFIG: GameConfig = {
+  // Debug/Production mode toggle
+  debug: process.env.NODE_ENV === 'development',
+
+  physics: {
+    gravity: { x: 0, y: 20 },
+    fixedDt: 1/120
+  },
+
+  gameplay: {
+    maxBalls: 10,
+    targetEscapes: 10,
+    timeLimit: 30 // seconds
+  },
+
+  // Color palette for random ball colors
+  ballColors: [
+    0xFF3333,
+    0x33ff33,
+    0x3333ff,
+    0xA8F8FF,
+    0xFF33F1,
+    0x0B7575,
+    0xff8833,
+    0x8833ff
+  ],
+
+  ball: {
+    type: 'normal',
+    radius: 0.5,
+    density: 1.0,
+    restitution: 1.0,
+    friction: 0.1,
+    color: 0xff3333,
+    trail: {
+      enabled: true,
+      maxLength: 10,
+      fadeAlpha: 0.0,
+      width: 1.0,
+      blendMode: 'add',
+      sampleSteps: 2 // 60 points per second at 120 Hz
+    },
+    glow: {
+      enabled: false,
+      distance: 10,
+      outerStrength: 1.2,
+      quality: 0.5
+    }
+  },
+
+  ballTypes: {
+    normal: {},
+    heavy: {
+      radius: 0.6,
+      density: 4.0,
+      restitution: 0.7,
+      visual: { outline: { color: 0x222222, width: 4 } }
+    },
+    bouncy: {
+      radius: 0.45,
+      density: 0.6,
+      restitution: 1.15,
+      visual: { outline: { color: 0xffffff, width: 2 } }
+    },
+    tiny: {
+      radius: 0.25,
+      density: 1.0
+    },
+    splitting: {
+      visual: { core: { color: 0xffffff, radius: 0.35 } },
+      behavior: { type: 'split', count: 3, childType: 'tiny', speed: 5, spread: Math.PI / 6 }
+    },
+    magnetic: {
+      density: 2.0,
+      visual: { core: { color: 0x111111, radius: 0.5 }, halo: { color: 0x66ccff, alpha: 0.12, radius: 2.5 } },
+      behavior: { type: 'magnetic', strength: 6, range: 2.5 }
+    },
+    ghost: {
+      // Passes through other balls, but not through walls
+      collisionGroups: interactionGroups(GHOST_BALL_GROUP, 0xFFFF & ~(BALL_GROUP | GHOST_BALL_GROUP)),
+      visual: { alpha: 0.45 }
+    },
+    mote: {
+      // Small and passing through other balls, so hundreds can share the arena
+      radius: 0.15,
+      collisionGroups: interactionGroups(GHOST_BALL_GROUP, 0xFFFF & ~(BALL_GROUP | GHOST_BALL_GROUP))
+    }
+  },
+
+  rings: [{
+    radius: 5.5,
+    thickness: 0.3,
+    gaps: [
+      // Gap center at top (12 o'clock position), 30 degrees wide
+      { centerAngle: 3/2 * Math.PI, width: Math.PI / 6.0 }
+    ],
+    segments: 256,
+    spinSpeed: 1.0,
+    restitution: 0.8,
+    friction: 1.0,
+    color: 0xFFFFFF,
+    escapeSensorOffset: 0.0,
+    escapeSensorThickness: 0.5,
+    glow: {
+      enabled: false,
+      distance: 7,
+      outerStrength: 1.5,
+      color: 0xFFFFFF,
+      quality: 0.5
+    },
+    particles: {
+      enabled: true,
+      color: 0xffffff, // Uncomment to use fixed dust color, comment out to use ball color
+      dustIntensity: 1.0, // Normal dust intensity
+      cooldownDuration: 0.1 // Cooldown duration for particle emission
+    }
+  }],
+
+  // Player control of the ring (drag, swipe, arrow keys)
+  ringControl: {
+    enabled: true,
+    dragSensitivity: 1.0,
+    keyboardSpeed: 3.0,
+    keyboardAcceleration: 12.0,
+    inertia: 0.15
+  },
+
+  // Procedural sound effects (Web Audio)
+  audio: {
+    enabled: true,
+    volume: 0.5,
+    maxVoices: 16,
+    maxVoicesPerBall: 2,
+    minImpactIntensity: 0.05
+  },
+
+  camera: {
+    minZoom: 0.5,
+    maxZoom: 3,
+    smoothing: 6,
+    followEscapes: false,
+    followZoom: 1.6,
+    shake: {
+      enabled: true,
+      maxOffset: 0.25,
+      decay: 1.5,
+      ringHit: 0.35,
+      obstacleHit: 0.25,
+      minIntensity: 0.3
+    }
+  },
+
+  particleEffects: {
+    'dust-fall': {
+      shape: 'dot',
+      size: 0.08,
+      count: 6,
+      intensityScale: { min: 0.5, max: 2.0 },
+      lifetime: { min: 1.0, max: 2.0 },
+      alpha: [{ value: 1, time: 0 }, { value: 0, time: 0.5 }, { value: 0, time: 1 }],
+      scale: [{ value: 1, time: 0 }, { value: 0.5, time: 1 }],
+      // Puffs out, slows down, then settles like dust
+      speed: [{ value: 1.2, time: 0 }, { value: 0.4, time: 0.3 }, { value: 0.4, time: 1 }],
+      acceleration: { x: 0, y: 4 },
+      spread: 360
+    },
+    'escape-burst': {
+      shape: 'streak',
+      size: 0.2,
+      count: 24,
+      lifetime: { min: 0.4, max: 0.8 },
+      alpha: [{ value: 1, time: 0 }, { value: 0, time: 1 }],
+      scale: [{ value: 1, time: 0 }, { value: 0.2, time: 1 }],
+      speed: [{ value: 4, time: 0 }, { value: 0.5, time: 1 }],
+      spread: 360,
+      blendMode: 'add'
+    },
+    'kill-poof': {
+      shape: 'dot',
+      size: 0.25,
+      count: 10,
+      lifetime: { min: 0.3, max: 0.6 },
+      alpha: [{ value: 0.6, time: 0 }, { value: 0, time: 1 }],
+      scale: [{ value: 0.5, time: 0 }, { value: 2, time: 1 }],
+      speed: [{ value: 1.5, time: 0 }, { value: 0, time: 1 }],
+      spread: 360,
+      spawnRadius: 0.2
+    },
+    'spawn-sparkle': {
+      shape: 'dot',
+      size: 0.1,
+      count: 12,
+      lifetime: { min: 0.3, max: 0.5 },
+      alpha: [{ value: 1, time: 0 }, { value: 0, time: 1 }],
+      scale: [{ value: 1, time: 0 }, { value: 0, time: 1 }],
+      speed: [{ value: 2, time: 0 }, { value: 0, time: 1 }],
+      spread: 360,
+      spawnRadius: 0.3,
+      blendMode: 'add'
+    },
+    'win-confetti': {
+      shape: 'square',
+      size: 0.15,
+      count: 120,
+      lifetime: { min: 2.0, max: 3.0 },
+      alpha: [{ value: 1, time: 0 }, { value: 1, time: 0.7 }, { value: 0, time: 1 }],
+      scale: [{ value: 1, time: 0 }, { value: 0.8, time: 1 }],
+      speed: [{ value: 8, time: 0 }, { value: 1, time: 0.4 }, { value: 1, time: 1 }],
+      acceleration: { x: 0, y: 5 },
+      spread: 360,
+      colors: [0xff3333, 0xffcc33, 0x33ff66, 0x33ccff, 0xcc66ff]
+    }
+  },
+
+  scoring: {
+    escapePoints: 100,
+    comboWindow: 1.5,
+    comboStep: 0.5,
+    maxMultiplier: 4,
+    firstBounceBonus: 150,
+    timeBonusPerSecond: 20
+  },
+
+  powerUps: {
+    enabled: true,
+    interval: 6,
+    maxActive: 2,
+    lifetime: 8,
+    radius: 0.4,
+    spawnRadius: 2.5,
+    types: [
+      { kind: 'widenGap', weight: 1 },
+      { kind: 'slowSpin', weight: 1 },
+      { kind: 'extraBalls', weight: 1 },
+      { kind: 'freezeTimer', weight: 1 }
+    ],
+    widenGap: { duration: 5, scale: 2, color: 0x33ff99 },
+    slowSpin: { duration: 5, scale: 0.3, color: 0x66ccff },
+    extraBalls: { count: 2, color: 0xffcc33 },
+    freezeTimer: { duration: 5, color: 0xccf2ff }
+  },
+
+  // The default arena is empty; levels place obstacles
+  obstacles: [],
+
+  obstacleDefaults: {
+    peg: {
+      radius: 0.2,
+      restitution: 0.8,
+      friction: 0.0,
+      color: 0xcccccc,
+      particles: { enabled: true, dustIntensity: 0.5, cooldownDuration: 0.1 }
+    },
+    bumper: {
+      radius: 0.5,
+      kick: 6,
+      restitution: 1.0,
+      friction: 0.0,
+      color: 0xff66cc,
+      particles: { enabled: true, dustIntensity: 1.5, cooldownDuration: 0.1 }
+    },
+    paddle: {
+      length: 2,
+      thickness: 0.2,
+      spinSpeed: Math.PI / 2,
+      restitution: 0.9,
+      friction: 0.1,
+      color: 0x66ccff,
+      particles: { enabled: true, dustIntensity: 1.0, cooldownDuration: 0.1 }
+    },
+    movingWall: {
+      length: 1.5,
+      thickness: 0.2,
+      speed: 1.5,
+      restitution: 0.9,
+      friction: 0.1,
+      color: 0xffaa33,
+      particles: { enabled: true, dustIntensity: 1.0, cooldownDuration: 0.1 }
+    }
+  },
+
+  spawning: {
+    // 'cycle' walks the palette in order, 'random' draws from the seeded RNG
+    colorOrder: 'cycle',
+    initial: {
+      position: { x: 0, y: 0 },
+      velocity: { magnitude: 5, angle: 0 },
+      angleRange: { min: Math.PI/4, max: 3*Math.PI/4 }
+    },
+    onRingEscape: {
+      count: 2,
+      position: { x: 0, y: 0 },
+      velocity: { magnitude: 5, angle: 0 },
+      angleRange: { min: Math.PI/4, max: 3*Math.PI/4 }
+    }
+  },
+
+  // World bounds, independent of the screen; large enough for every ring
+  killBoundary: {
+    shape: { type: 'circle', radius: 8 },
+    thickness: 1.0
+  },
+
+  // Object reuse, so ball-heavy levels don't stutter on garbage collection
+  pooling: {
+    maxBalls: 32,
+    maxBallViews: 32,
+    maxEmitters: 24
+  },
+
+  // Ball storms switch to one batched sprite layer instead of per-ball graphics
+  ballRendering: {
+    mode: 'auto',
+    batchAbove: 100,
+    glow: {
+      enabled: true,
+      bloomScale: 1.0,
+      blur: 6,
+      quality: 4
+    }
+  }
+};
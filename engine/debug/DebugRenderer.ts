@@ -5,7 +5,7 @@ import { m2p } from "../scale";
 export class DebugRenderer {
   layer = new PIXI.Graphics();
 
-  constructor(private world: RAPIER.World, stage: PIXI.Container) {
+  constructor(public world: RAPIER.World, stage: PIXI.Container) {
     stage.addChild(this.layer);
   }
 
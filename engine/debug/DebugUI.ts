@@ -1,8 +1,11 @@
 import * as PIXI from "pixi.js";
 import type RAPIER from "@dimforge/rapier2d-deterministic";
-import { GUI } from "dat.gui";
+import { GUI, type GUIController } from "dat.gui";
 import { Stats } from "pixi-stats";
 import { scaleManager } from "../scale";
+import { GAME_CONFIG } from "../config";
+import type { Camera } from "../Camera";
+import type { ParticleManager } from "../ParticleManager";
 
 export class DebugUI {
   gui = new GUI();
@@ -14,12 +17,27 @@ export class DebugUI {
     totalSpawned: 0,
     escapedBalls: 0,
     rendererType: "Unknown",
+    ballRendering: "graphics",
     currentPPM: 50,
     screenDimensions: "0x0",
-    ringTargetSize: "0px"
+    worldTargetSize: "0x0px",
+    zoom: 1,
+    effect: "dust-fall",
+    effectColor: "#ffffff",
+    effectIntensity: 1,
+    ballPool: "0/0 (0 pooled)",
+    ballViewPool: "0/0 (0 pooled)",
+    emitterPool: "0/0 (0 live, 0 evicted)"
   };
+  private particlesFolder: GUI;
+  private effectController?: GUIController;
 
-  constructor(private world: RAPIER.World, app: PIXI.Application) {
+  constructor(
+    private world: RAPIER.World,
+    app: PIXI.Application,
+    private camera: Camera,
+    private particles: ParticleManager
+  ) {
     this.stats = new Stats(app.renderer);                      // FPS/DC/MS overlay
 
     // Detect renderer type
@@ -56,40 +74,98 @@ export class DebugUI {
     gameFolder.add(this.params, "totalSpawned").listen();
     gameFolder.add(this.params, "escapedBalls").listen();
 
+    // Pool counters: hits/misses
+    const poolsFolder = this.gui.addFolder("Pools");
+    poolsFolder.add(this.params, "ballPool").name("Balls").listen();
+    poolsFolder.add(this.params, "ballViewPool").name("Ball views").listen();
+    poolsFolder.add(this.params, "emitterPool").name("Emitters").listen();
+
     // Technical info folder
     const techFolder = this.gui.addFolder("Technical Info");
     techFolder.add(this.params, "rendererType").listen();
+    techFolder.add(this.params, "ballRendering").listen();
     techFolder.add(this.params, "currentPPM").listen();
     techFolder.add(this.params, "screenDimensions").listen();
-    techFolder.add(this.params, "ringTargetSize").listen();
+    techFolder.add(this.params, "worldTargetSize").listen();
 
     // Responsive scaling controls folder
     const scalingFolder = this.gui.addFolder("Responsive Scaling");
     const config = scaleManager.getConfig();
-    scalingFolder.add(config, "targetRingScreenRatio", 0.5, 1.0).step(0.05).name("Ring Screen Ratio").onChange((value: number) => {
-      scaleManager.updateConfig({ targetRingScreenRatio: value });
-      // Trigger recalculation if needed
-      const newPPM = scaleManager.updatePPM(app.screen.width, app.screen.height);
+    scalingFolder.add(config, "worldScreenRatio", 0.5, 1.0).step(0.05).name("World Screen Ratio").onChange((value: number) => {
+      scaleManager.updateConfig({ worldScreenRatio: value });
       this.updateScalingInfo(app);
     });
 
     scalingFolder.add(config, "minPPM", 10, 50).step(1).name("Min PPM").onChange((value: number) => {
       scaleManager.updateConfig({ minPPM: value });
+      this.updateScalingInfo(app);
     });
 
     scalingFolder.add(config, "maxPPM", 50, 150).step(5).name("Max PPM").onChange((value: number) => {
       scaleManager.updateConfig({ maxPPM: value });
+      this.updateScalingInfo(app);
+    });
+
+    // Camera controls folder
+    const cameraConfig = GAME_CONFIG.camera;
+    const cameraFolder = this.gui.addFolder("Camera");
+    cameraFolder.add(this.params, "zoom", cameraConfig.minZoom, cameraConfig.maxZoom).step(0.1).name("Zoom").onChange((value: number) => {
+      this.camera.setZoom(value);
+    });
+    cameraFolder.add(cameraConfig, "followEscapes").name("Follow escapes");
+    cameraFolder.add(cameraConfig.shake, "enabled").name("Screen shake");
+    cameraFolder.add({ shake: () => this.camera.shake(1) }, "shake").name("Test shake");
+
+    // Particle effect preview folder
+    this.particlesFolder = this.gui.addFolder("Particles");
+    this.particlesFolder.addColor(this.params, "effectColor").name("Color");
+    this.particlesFolder.add(this.params, "effectIntensity", 0, 1).step(0.05).name("Intensity");
+    this.particlesFolder.add({ preview: () => this.previewEffect() }, "preview").name("Preview");
+    this.updateEffectList(this.particles.getEffectNames());
+  }
+
+  /**
+   * Show pool hits and misses of balls, ball views and particle emitters
+   */
+  updatePoolStats(
+    balls: { hits: number; misses: number; pooled: number },
+    ballViews: { hits: number; misses: number; pooled: number },
+    emitters: { hits: number; misses: number; evictions: number; size: number }
+  ) {
+    this.params.ballPool = `${balls.hits}/${balls.misses} (${balls.pooled} pooled)`;
+    this.params.ballViewPool = `${ballViews.hits}/${ballViews.misses} (${ballViews.pooled} pooled)`;
+    this.params.emitterPool = `${emitters.hits}/${emitters.misses} (${emitters.size} live, ${emitters.evictions} evicted)`;
+  }
+
+  /**
+   * Offer the registered particle effects for preview
+   */
+  updateEffectList(names: string[]) {
+    if (!names.includes(this.params.effect)) {
+      this.params.effect = names[0] ?? "";
+    }
+    this.effectController?.remove();
+    this.effectController = this.particlesFolder.add(this.params, "effect", names).name("Effect");
+  }
+
+  /**
+   * Play the selected effect at the arena center
+   */
+  private previewEffect() {
+    this.particles.emitParticlesAt(this.params.effect, 0, 0, {
+      intensity: this.params.effectIntensity,
+      ballColor: parseInt(this.params.effectColor.slice(1), 16)
     });
   }
 
   updateScalingInfo(app: PIXI.Application) {
-    this.params.currentPPM = Math.round(scaleManager.getPPM() * 10) / 10; // Round to 1 decimal
+    // On-screen PPM, including the camera fit and zoom
+    const ppm = this.camera.getEffectivePPM() / this.camera.getZoom();
+    this.params.currentPPM = Math.round(ppm * 10) / 10; // Round to 1 decimal
     this.params.screenDimensions = `${app.screen.width}x${app.screen.height}`;
 
-    const minDimension = Math.min(app.screen.width, app.screen.height);
     const config = scaleManager.getConfig();
-    const targetSize = Math.round(minDimension * config.targetRingScreenRatio);
-    this.params.ringTargetSize = `${targetSize}px`;
+    this.params.worldTargetSize = `${Math.round(config.worldWidth * ppm)}x${Math.round(config.worldHeight * ppm)}px`;
   }
 
   private getRendererType(renderer: PIXI.Renderer): string {
@@ -0,0 +1,51 @@
+/**
+ * Minimal typed event emitter. `Events` maps each event name to the payload
+ * its listeners receive; any number of listeners can subscribe to an event.
+ */
+export class EventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<(payload: any) => void>>();
+
+  /**
+   * Subscribe to an event. Returns a function that removes the listener again.
+   */
+  on<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe for the next occurrence of an event only
+   */
+  once<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): () => void {
+    const unsubscribe = this.on(event, (payload) => {
+      unsubscribe();
+      listener(payload);
+    });
+    return unsubscribe;
+  }
+
+  off<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void) {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    const set = this.listeners.get(event);
+    if (!set) return;
+
+    // Copy so listeners can unsubscribe while being notified
+    Array.from(set).forEach(listener => listener(payload));
+  }
+
+  /**
+   * Remove every listener, e.g. when the owner is destroyed
+   */
+  clear() {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,169 @@
+import type { SimulationCommand } from "../commands";
+
+/** Keys that steer the ring, mapped to their direction */
+const STEER_KEYS: Record<string, number> = {
+  ArrowLeft: -1,
+  ArrowRight: 1,
+  a: -1,
+  d: 1
+};
+
+/**
+ * Whether a key event goes to a text field, where keys must type rather than play
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target.isContentEditable;
+}
+
+/**
+ * Collects pointer drags, touch swipes and arrow keys and turns them into
+ * ring control commands. Input is buffered and only dispatched by `flush()`,
+ * which the game loop calls between fixed steps so every command lands on a
+ * well-defined step and replays stay exact.
+ */
+export class InputManager {
+  private pending: SimulationCommand[] = [];
+  private pendingDrag = 0;
+  private activePointerId: number | null = null;
+  private lastPointerAngle = 0;
+  private heldKeys = new Set<string>();
+  private steerAxis = 0;
+
+  /**
+   * @param target Element that receives pointer input (the game canvas)
+   * @param screenToWorld Converts target-relative CSS pixels to physics coordinates
+   * @param dispatch Receives the buffered commands on `flush()`
+   */
+  constructor(
+    private target: HTMLElement,
+    private screenToWorld: (x: number, y: number) => { x: number; y: number },
+    private dispatch: (command: SimulationCommand) => void
+  ) {
+    // Keep touch swipes from scrolling or zooming the page
+    this.target.style.touchAction = 'none';
+
+    this.target.addEventListener('pointerdown', this.handlePointerDown);
+    this.target.addEventListener('pointermove', this.handlePointerMove);
+    this.target.addEventListener('pointerup', this.handlePointerUp);
+    this.target.addEventListener('pointercancel', this.handlePointerUp);
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('blur', this.handleBlur);
+  }
+
+  /**
+   * Dispatch everything received since the previous flush
+   */
+  flush() {
+    const commands = this.pending;
+    this.pending = [];
+
+    // Pointer moves are merged into one drag per frame
+    if (this.pendingDrag !== 0) {
+      commands.push({ type: 'dragRing', angle: this.pendingDrag });
+      this.pendingDrag = 0;
+    }
+
+    commands.forEach(command => this.dispatch(command));
+  }
+
+  private pointerAngle(event: PointerEvent): number {
+    const rect = this.target.getBoundingClientRect();
+    const p = this.screenToWorld(event.clientX - rect.left, event.clientY - rect.top);
+    // The ring is centered at the physics origin
+    return Math.atan2(p.y, p.x);
+  }
+
+  private handlePointerDown = (event: PointerEvent) => {
+    if (this.activePointerId !== null) return;
+
+    // Switching to the pointer drops keyboard steering, so the ring doesn't keep drifting
+    this.heldKeys.clear();
+    this.updateSteerAxis();
+
+    this.activePointerId = event.pointerId;
+    this.lastPointerAngle = this.pointerAngle(event);
+    this.target.setPointerCapture(event.pointerId);
+  };
+
+  private handlePointerMove = (event: PointerEvent) => {
+    if (event.pointerId !== this.activePointerId) return;
+
+    const angle = this.pointerAngle(event);
+    let delta = angle - this.lastPointerAngle;
+    // Take the short way around when crossing ±π
+    if (delta > Math.PI) delta -= 2 * Math.PI;
+    if (delta < -Math.PI) delta += 2 * Math.PI;
+
+    this.lastPointerAngle = angle;
+    this.pendingDrag += delta;
+  };
+
+  private handlePointerUp = (event: PointerEvent) => {
+    if (event.pointerId !== this.activePointerId) return;
+
+    this.endDrag();
+  };
+
+  private endDrag() {
+    if (this.activePointerId === null) return;
+
+    if (this.target.hasPointerCapture(this.activePointerId)) {
+      this.target.releasePointerCapture(this.activePointerId);
+    }
+    this.activePointerId = null;
+    if (this.pendingDrag !== 0) {
+      this.pending.push({ type: 'dragRing', angle: this.pendingDrag });
+      this.pendingDrag = 0;
+    }
+    this.pending.push({ type: 'releaseRing' });
+  }
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (!(event.key in STEER_KEYS) || isTypingTarget(event.target)) return;
+
+    event.preventDefault();
+    // Auto-repeat of a key cleared by a drag shouldn't take control back
+    if (event.repeat) return;
+
+    // Likewise switching to the keyboard ends a drag in progress
+    this.endDrag();
+    this.heldKeys.add(event.key);
+    this.updateSteerAxis();
+  };
+
+  private handleKeyUp = (event: KeyboardEvent) => {
+    if (!this.heldKeys.delete(event.key)) return;
+
+    this.updateSteerAxis();
+  };
+
+  private handleBlur = () => {
+    this.heldKeys.clear();
+    this.updateSteerAxis();
+  };
+
+  private updateSteerAxis() {
+    let axis = 0;
+    this.heldKeys.forEach(key => {
+      axis += STEER_KEYS[key];
+    });
+    axis = Math.max(-1, Math.min(1, axis));
+
+    if (axis !== this.steerAxis) {
+      this.steerAxis = axis;
+      this.pending.push({ type: 'steerRing', axis });
+    }
+  }
+
+  destroy() {
+    this.target.removeEventListener('pointerdown', this.handlePointerDown);
+    this.target.removeEventListener('pointermove', this.handlePointerMove);
+    this.target.removeEventListener('pointerup', this.handlePointerUp);
+    this.target.removeEventListener('pointercancel', this.handlePointerUp);
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('blur', this.handleBlur);
+  }
+}
@@ -0,0 +1,763 @@
+import { GAME_CONFIG, type GameConfig } from "../config";
+import { createOutline, parsePath, type ArenaShapeConfig, type BallColorOrder, type BallRenderingConfig, type BallSpawnConfig, type ObstacleConfig, type ObstacleMaterialConfig, type ObjectiveConfig, type ObstacleType, type ParticleEffectConfig, type ParticleKeyframe, type PowerUpKind, type RingConfig, type RingGapConfig, type WorldBoundsConfig } from "../objects";
+
+/**
+ * Level files (levels/*.json) are plain JSON so designers can add levels
+ * without touching TypeScript. Everything except the id, name, rings and win
+ * condition is optional and falls back to `GAME_CONFIG`.
+ *
+ * Rings are listed from innermost to outermost; a ball only counts as
+ * escaped once it clears the last one.
+ *
+ * All angles are in degrees and spin speeds in degrees per second; the
+ * loader converts them to the radians the engine uses.
+ */
+export interface LevelDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  rings: LevelRing[];
+  spawn?: LevelSpawnRules;
+  powerUps?: LevelPowerUps;
+  obstacles?: LevelObstacle[];
+  /** World bounds in meters; balls crossing them are destroyed and the camera fits them */
+  bounds?: WorldBoundsConfig;
+  /** Particle effects to add, or to replace built-in ones of the same name */
+  effects?: Record<string, LevelParticleEffect>;
+  /** How balls are drawn; ball storms use 'batched' */
+  ballRendering?: BallRenderingConfig['mode'];
+  win: LevelWinConditions;
+}
+
+export interface LevelRing {
+  radius?: number;
+  thickness?: number;
+  /** Wall outline (rotations in degrees); a circle when omitted */
+  shape?: ArenaShapeConfig;
+  /** Shorthand for a single always-open gap; cannot be combined with `gaps` */
+  gapAngle?: number;
+  gapCenterAngle?: number;
+  gaps?: LevelGap[];
+  spinSpeed?: number;
+  restitution?: number;
+  friction?: number;
+  color?: string;
+  /** Particle effect played when a ball hits the wall */
+  hitEffect?: string;
+}
+
+export interface LevelGap {
+  centerAngle: number;
+  width: number;
+  /** Seconds per open/close cycle, seconds open per cycle and cycle shift */
+  timing?: { period: number; openDuration: number; offset?: number };
+}
+
+export interface LevelSpawn {
+  position?: { x: number; y: number };
+  speed?: number;
+  /** Launch direction range; a fixed direction when min equals max */
+  angleRange?: { min: number; max: number };
+  /** Ball types (keys of `GAME_CONFIG.ballTypes`) to pick from by relative weight */
+  types?: { type: string; weight: number }[];
+}
+
+export interface LevelSpawnRules {
+  maxBalls?: number;
+  colorOrder?: BallColorOrder;
+  /** `count` balls are launched when the round starts */
+  initial?: LevelSpawn & { count?: number };
+  onRingEscape?: LevelSpawn & { count?: number };
+}
+
+/**
+ * Obstacle inside the arena. Sizes, speeds and materials left out come from
+ * `GAME_CONFIG.obstacleDefaults` for its type.
+ */
+export interface LevelObstacle {
+  type: ObstacleType;
+  /** Position of pegs, bumpers and paddles */
+  x?: number;
+  y?: number;
+  /** Pegs and bumpers */
+  radius?: number;
+  /** Speed bumpers add to balls they kick, in m/s */
+  kick?: number;
+  /** Paddles and moving walls */
+  length?: number;
+  thickness?: number;
+  angle?: number;
+  spinSpeed?: number;
+  /** Waypoints a moving wall travels along at `speed` m/s */
+  path?: { x: number; y: number }[];
+  speed?: number;
+  /** Return to the first waypoint instead of turning back at the last */
+  loop?: boolean;
+  restitution?: number;
+  friction?: number;
+  color?: string;
+  /** Particle effect played when a ball hits the obstacle */
+  hitEffect?: string;
+}
+
+export interface LevelPowerUps {
+  enabled?: boolean;
+  /** Seconds between power-up spawns */
+  interval?: number;
+  maxActive?: number;
+  /** Kinds to pick from by relative weight */
+  types?: { kind: PowerUpKind; weight: number }[];
+}
+
+export interface LevelWinConditions {
+  /** Balls to escape; optional when `objective` is given */
+  targetEscapes?: number;
+  timeLimit: number;
+  /** Objectives to meet instead of escaping `targetEscapes` balls */
+  objective?: LevelObjective;
+}
+
+/** Like `ParticleEffectConfig`, with colors as "#rrggbb" strings */
+export type LevelParticleEffect = Omit<ParticleEffectConfig, 'colors'> & { colors?: string[] };
+
+/** Like `ObjectiveConfig`, with colors as "#rrggbb" strings */
+export type LevelObjective =
+  | Exclude<ObjectiveConfig, { type: 'escapeColor' | 'all' | 'any' }>
+  | { type: 'escapeColor'; color: string; count: number }
+  | { type: 'all' | 'any'; objectives: LevelObjective[] };
+
+export class LevelValidationError extends Error {
+  constructor(readonly path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'LevelValidationError';
+  }
+}
+
+const degToRad = (degrees: number) => degrees * Math.PI / 180;
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new LevelValidationError(path, 'expected an object');
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new LevelValidationError(path, 'expected a non-empty string');
+  }
+  return value;
+}
+
+function expectNumber(value: unknown, path: string, min: number = -Infinity, max: number = Infinity): number {
+  if (typeof value !== 'number' || !isFinite(value)) {
+    throw new LevelValidationError(path, 'expected a number');
+  }
+  if (value < min || value > max) {
+    throw new LevelValidationError(path, `expected a number between ${min} and ${max}, got ${value}`);
+  }
+  return value;
+}
+
+function expectColor(value: unknown, path: string): string {
+  const color = expectString(value, path);
+  if (!/^#[0-9a-fA-F]{6}$/.test(color)) {
+    throw new LevelValidationError(path, `expected a #rrggbb color, got "${color}"`);
+  }
+  return color;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new LevelValidationError(path, 'expected a boolean');
+  }
+  return value;
+}
+
+function optional<T>(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  check: (value: unknown, path: string) => T
+): T | undefined {
+  return obj[key] === undefined ? undefined : check(obj[key], `${path}.${key}`);
+}
+
+function validateVector(value: unknown, path: string): { x: number; y: number } {
+  const obj = expectObject(value, path);
+  return {
+    x: expectNumber(obj.x, `${path}.x`),
+    y: expectNumber(obj.y, `${path}.y`)
+  };
+}
+
+function validateGap(value: unknown, path: string): LevelGap {
+  const obj = expectObject(value, path);
+  return {
+    centerAngle: expectNumber(obj.centerAngle, `${path}.centerAngle`),
+    width: expectNumber(obj.width, `${path}.width`, 0, 360),
+    timing: optional(obj, 'timing', path, (v, p) => {
+      const timing = expectObject(v, p);
+      const period = expectNumber(timing.period, `${p}.period`, 0.01);
+      return {
+        period,
+        openDuration: expectNumber(timing.openDuration, `${p}.openDuration`, 0, period),
+        offset: optional(timing, 'offset', p, expectNumber)
+      };
+    })
+  };
+}
+
+function validateShape(value: unknown, path: string): ArenaShapeConfig {
+  const obj = expectObject(value, path);
+  const rotation = optional(obj, 'rotation', path, expectNumber);
+
+  switch (obj.type) {
+    case 'circle':
+      return { type: 'circle' };
+    case 'polygon':
+      return { type: 'polygon', sides: Math.floor(expectNumber(obj.sides, `${path}.sides`, 3, 64)), rotation };
+    case 'star':
+      return {
+        type: 'star',
+        points: Math.floor(expectNumber(obj.points, `${path}.points`, 3, 32)),
+        innerRadius: expectNumber(obj.innerRadius, `${path}.innerRadius`, 0.5),
+        rotation
+      };
+    case 'roundedRect':
+      return {
+        type: 'roundedRect',
+        width: expectNumber(obj.width, `${path}.width`, 1),
+        height: expectNumber(obj.height, `${path}.height`, 1),
+        cornerRadius: obj.cornerRadius === undefined ? 0 : expectNumber(obj.cornerRadius, `${path}.cornerRadius`, 0)
+      };
+    case 'path': {
+      const d = expectString(obj.path, `${path}.path`);
+      try {
+        parsePath(d);
+      } catch (error) {
+        throw new LevelValidationError(`${path}.path`, (error as Error).message);
+      }
+      return { type: 'path', path: d };
+    }
+    default:
+      throw new LevelValidationError(`${path}.type`, `expected "circle", "polygon", "star", "roundedRect" or "path", got ${JSON.stringify(obj.type)}`);
+  }
+}
+
+function validateRing(value: unknown, path: string): LevelRing {
+  const obj = expectObject(value, path);
+  if (obj.gaps !== undefined && (obj.gapAngle !== undefined || obj.gapCenterAngle !== undefined)) {
+    throw new LevelValidationError(`${path}.gaps`, 'cannot be combined with gapAngle/gapCenterAngle');
+  }
+
+  const ring: LevelRing = {
+    radius: optional(obj, 'radius', path, (v, p) => expectNumber(v, p, 0.5)),
+    thickness: optional(obj, 'thickness', path, (v, p) => expectNumber(v, p, 0.01)),
+    shape: optional(obj, 'shape', path, validateShape),
+    gapAngle: optional(obj, 'gapAngle', path, (v, p) => expectNumber(v, p, 0, 360)),
+    gapCenterAngle: optional(obj, 'gapCenterAngle', path, (v, p) => expectNumber(v, p)),
+    gaps: optional(obj, 'gaps', path, (v, p) => {
+      if (!Array.isArray(v)) {
+        throw new LevelValidationError(p, 'expected an array of gaps');
+      }
+      return v.map((gap, i) => validateGap(gap, `${p}[${i}]`));
+    }),
+    spinSpeed: optional(obj, 'spinSpeed', path, (v, p) => expectNumber(v, p)),
+    restitution: optional(obj, 'restitution', path, (v, p) => expectNumber(v, p, 0)),
+    friction: optional(obj, 'friction', path, (v, p) => expectNumber(v, p, 0)),
+    color: optional(obj, 'color', path, expectColor),
+    hitEffect: optional(obj, 'hitEffect', path, expectString)
+  };
+  return ring;
+}
+
+function validateSpawn(value: unknown, path: string): LevelSpawn {
+  const obj = expectObject(value, path);
+  const spawn: LevelSpawn = {
+    position: optional(obj, 'position', path, validateVector),
+    speed: optional(obj, 'speed', path, (v, p) => expectNumber(v, p, 0)),
+    angleRange: optional(obj, 'angleRange', path, (v, p) => {
+      const range = expectObject(v, p);
+      const min = expectNumber(range.min, `${p}.min`);
+      const max = expectNumber(range.max, `${p}.max`, min);
+      return { min, max };
+    }),
+    types: optional(obj, 'types', path, (v, p) => {
+      if (!Array.isArray(v) || v.length === 0) {
+        throw new LevelValidationError(p, 'expected a non-empty array');
+      }
+      return v.map((entry, i) => {
+        const choice = expectObject(entry, `${p}[${i}]`);
+        const type = expectString(choice.type, `${p}[${i}].type`);
+        if (!Object.prototype.hasOwnProperty.call(GAME_CONFIG.ballTypes, type)) {
+          throw new LevelValidationError(`${p}[${i}].type`, `unknown ball type "${type}"`);
+        }
+        return { type, weight: expectNumber(choice.weight, `${p}[${i}].weight`, 0) };
+      });
+    })
+  };
+  return spawn;
+}
+
+function validateSpawnRules(value: unknown, path: string): LevelSpawnRules {
+  const obj = expectObject(value, path);
+  return {
+    maxBalls: optional(obj, 'maxBalls', path, (v, p) => Math.floor(expectNumber(v, p, 1))),
+    colorOrder: optional(obj, 'colorOrder', path, (v, p) => {
+      if (v !== 'cycle' && v !== 'random') {
+        throw new LevelValidationError(p, `expected "cycle" or "random", got ${JSON.stringify(v)}`);
+      }
+      return v;
+    }),
+    initial: optional(obj, 'initial', path, (v, p) => ({
+      ...validateSpawn(v, p),
+      count: optional(expectObject(v, p), 'count', p, (c, cp) => Math.floor(expectNumber(c, cp, 1)))
+    })),
+    onRingEscape: optional(obj, 'onRingEscape', path, (v, p) => ({
+      ...validateSpawn(v, p),
+      count: optional(expectObject(v, p), 'count', p, (c, cp) => Math.floor(expectNumber(c, cp, 0)))
+    }))
+  };
+}
+
+function validateObjective(value: unknown, path: string): LevelObjective {
+  const obj = expectObject(value, path);
+  const count = () => Math.floor(expectNumber(obj.count, `${path}.count`, 1));
+
+  switch (obj.type) {
+    case 'escape':
+      return { type: 'escape', count: count() };
+    case 'survive':
+      return {
+        type: 'survive',
+        seconds: expectNumber(obj.seconds, `${path}.seconds`, 0),
+        minBalls: Math.floor(expectNumber(obj.minBalls, `${path}.minBalls`, 1))
+      };
+    case 'escapeColor':
+      return { type: 'escapeColor', color: expectColor(obj.color, `${path}.color`), count: count() };
+    case 'noKills':
+      return { type: 'noKills' };
+    case 'escapeBeforeHits':
+      return { type: 'escapeBeforeHits', count: count(), maxHits: Math.floor(expectNumber(obj.maxHits, `${path}.maxHits`, 1)) };
+    case 'all':
+    case 'any': {
+      if (!Array.isArray(obj.objectives) || obj.objectives.length === 0) {
+        throw new LevelValidationError(`${path}.objectives`, 'expected a non-empty array of objectives');
+      }
+      return { type: obj.type, objectives: obj.objectives.map((o, i) => validateObjective(o, `${path}.objectives[${i}]`)) };
+    }
+    default:
+      throw new LevelValidationError(`${path}.type`, `expected "escape", "survive", "escapeColor", "noKills", "escapeBeforeHits", "all" or "any", got ${JSON.stringify(obj.type)}`);
+  }
+}
+
+const OBSTACLE_TYPES: ObstacleType[] = ['peg', 'bumper', 'paddle', 'movingWall'];
+
+function validateObstacle(value: unknown, path: string): LevelObstacle {
+  const obj = expectObject(value, path);
+  const type = obj.type as ObstacleType;
+  if (!OBSTACLE_TYPES.includes(type)) {
+    throw new LevelValidationError(`${path}.type`, `expected one of ${OBSTACLE_TYPES.map(t => `"${t}"`).join(', ')}, got ${JSON.stringify(obj.type)}`);
+  }
+
+  // Moving walls follow their path; everything else needs a position
+  const moving = type === 'movingWall';
+  if (moving && obj.path === undefined) {
+    throw new LevelValidationError(`${path}.path`, 'required for a moving wall');
+  }
+
+  return {
+    type,
+    x: moving ? undefined : expectNumber(obj.x, `${path}.x`),
+    y: moving ? undefined : expectNumber(obj.y, `${path}.y`),
+    radius: optional(obj, 'radius', path, (v, p) => expectNumber(v, p, 0.01)),
+    kick: optional(obj, 'kick', path, (v, p) => expectNumber(v, p, 0)),
+    length: optional(obj, 'length', path, (v, p) => expectNumber(v, p, 0.01)),
+    thickness: optional(obj, 'thickness', path, (v, p) => expectNumber(v, p, 0.01)),
+    angle: optional(obj, 'angle', path, expectNumber),
+    spinSpeed: optional(obj, 'spinSpeed', path, expectNumber),
+    path: optional(obj, 'path', path, (v, p) => {
+      if (!Array.isArray(v) || v.length < 2) {
+        throw new LevelValidationError(p, 'expected an array of at least 2 points');
+      }
+      return v.map((point, i) => validateVector(point, `${p}[${i}]`));
+    }),
+    speed: optional(obj, 'speed', path, (v, p) => expectNumber(v, p, 0)),
+    loop: optional(obj, 'loop', path, expectBoolean),
+    restitution: optional(obj, 'restitution', path, (v, p) => expectNumber(v, p, 0)),
+    friction: optional(obj, 'friction', path, (v, p) => expectNumber(v, p, 0)),
+    color: optional(obj, 'color', path, expectColor),
+    hitEffect: optional(obj, 'hitEffect', path, expectString)
+  };
+}
+
+const POWER_UP_KINDS: PowerUpKind[] = ['widenGap', 'slowSpin', 'extraBalls', 'freezeTimer'];
+
+function validatePowerUps(value: unknown, path: string): LevelPowerUps {
+  const obj = expectObject(value, path);
+  return {
+    enabled: optional(obj, 'enabled', path, expectBoolean),
+    interval: optional(obj, 'interval', path, (v, p) => expectNumber(v, p, 0.1)),
+    maxActive: optional(obj, 'maxActive', path, (v, p) => Math.floor(expectNumber(v, p, 1))),
+    types: optional(obj, 'types', path, (v, p) => {
+      if (!Array.isArray(v) || v.length === 0) {
+        throw new LevelValidationError(p, 'expected a non-empty array');
+      }
+      return v.map((entry, i) => {
+        const choice = expectObject(entry, `${p}[${i}]`);
+        const kind = choice.kind as PowerUpKind;
+        if (!POWER_UP_KINDS.includes(kind)) {
+          throw new LevelValidationError(`${p}[${i}].kind`, `expected one of ${POWER_UP_KINDS.map(k => `"${k}"`).join(', ')}, got ${JSON.stringify(choice.kind)}`);
+        }
+        return { kind, weight: expectNumber(choice.weight, `${p}[${i}].weight`, 0) };
+      });
+    })
+  };
+}
+
+const PARTICLE_SHAPES: ParticleEffectConfig['shape'][] = ['dot', 'square', 'streak'];
+
+function validateKeyframes(value: unknown, path: string): ParticleKeyframe[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new LevelValidationError(path, 'expected a non-empty array of keyframes');
+  }
+  return value.map((entry, i) => {
+    const keyframe = expectObject(entry, `${path}[${i}]`);
+    return {
+      value: expectNumber(keyframe.value, `${path}[${i}].value`),
+      time: expectNumber(keyframe.time, `${path}[${i}].time`, 0, 1)
+    };
+  });
+}
+
+function validateRange(value: unknown, path: string, min: number): { min: number; max: number } {
+  const range = expectObject(value, path);
+  const low = expectNumber(range.min, `${path}.min`, min);
+  return { min: low, max: expectNumber(range.max, `${path}.max`, low) };
+}
+
+function validateParticleEffect(value: unknown, path: string): LevelParticleEffect {
+  const obj = expectObject(value, path);
+  const shape = obj.shape as ParticleEffectConfig['shape'];
+  if (!PARTICLE_SHAPES.includes(shape)) {
+    throw new LevelValidationError(`${path}.shape`, `expected one of ${PARTICLE_SHAPES.map(s => `"${s}"`).join(', ')}, got ${JSON.stringify(obj.shape)}`);
+  }
+  if (obj.blendMode !== undefined && obj.blendMode !== 'normal' && obj.blendMode !== 'add') {
+    throw new LevelValidationError(`${path}.blendMode`, `expected "normal" or "add", got ${JSON.stringify(obj.blendMode)}`);
+  }
+
+  return {
+    shape,
+    size: expectNumber(obj.size, `${path}.size`, 0.001),
+    count: Math.floor(expectNumber(obj.count, `${path}.count`, 1, 500)),
+    intensityScale: optional(obj, 'intensityScale', path, (v, p) => validateRange(v, p, 0)),
+    lifetime: validateRange(obj.lifetime, `${path}.lifetime`, 0.01),
+    alpha: validateKeyframes(obj.alpha, `${path}.alpha`),
+    scale: validateKeyframes(obj.scale, `${path}.scale`),
+    speed: validateKeyframes(obj.speed, `${path}.speed`),
+    acceleration: optional(obj, 'acceleration', path, validateVector),
+    spread: expectNumber(obj.spread, `${path}.spread`, 0, 360),
+    spawnRadius: optional(obj, 'spawnRadius', path, (v, p) => expectNumber(v, p, 0)),
+    colors: optional(obj, 'colors', path, (v, p) => {
+      if (!Array.isArray(v) || v.length === 0) {
+        throw new LevelValidationError(p, 'expected a non-empty array of colors');
+      }
+      return v.map((color, i) => expectColor(color, `${p}[${i}]`));
+    }),
+    blendMode: obj.blendMode as LevelParticleEffect['blendMode']
+  };
+}
+
+function validateBounds(value: unknown, path: string): WorldBoundsConfig {
+  const obj = expectObject(value, path);
+  switch (obj.type) {
+    case 'circle':
+      return { type: 'circle', radius: expectNumber(obj.radius, `${path}.radius`, 0.1) };
+    case 'box':
+      return {
+        type: 'box',
+        width: expectNumber(obj.width, `${path}.width`, 0.1),
+        height: expectNumber(obj.height, `${path}.height`, 0.1)
+      };
+    default:
+      throw new LevelValidationError(`${path}.type`, `expected "circle" or "box", got ${JSON.stringify(obj.type)}`);
+  }
+}
+
+/**
+ * Check untrusted JSON against the level schema. Throws a
+ * `LevelValidationError` naming the offending field.
+ */
+export function validateLevel(data: unknown, path: string = 'level'): LevelDefinition {
+  const obj = expectObject(data, path);
+
+  if (!Array.isArray(obj.rings) || obj.rings.length === 0) {
+    throw new LevelValidationError(`${path}.rings`, 'expected a non-empty array of rings');
+  }
+
+  const rings = obj.rings.map((ring, i) => validateRing(ring, `${path}.rings[${i}]`));
+  if (rings.length > 1) {
+    // Nested rings need explicit radii so their order can be checked
+    rings.forEach((ring, i) => {
+      if (ring.radius === undefined) {
+        throw new LevelValidationError(`${path}.rings[${i}].radius`, 'required when a level has several rings');
+      }
+      if (i > 0 && ring.radius <= rings[i - 1].radius!) {
+        throw new LevelValidationError(`${path}.rings[${i}].radius`, 'rings must be listed from innermost to outermost');
+      }
+    });
+  }
+
+  // Every ring, with the escape sensors outside it and a ball crossing them,
+  // must sit inside the kill boundary, or balls die before they count as escaped
+  const bounds = optional(obj, 'bounds', path, validateBounds);
+  const killShape = bounds ?? GAME_CONFIG.killBoundary.shape;
+  const killExtent = killShape.type === 'circle' ? killShape.radius : Math.min(killShape.width, killShape.height) / 2;
+  const ballRadius = Math.max(
+    GAME_CONFIG.ball.radius,
+    ...Object.values(GAME_CONFIG.ballTypes).map(type => type.radius ?? GAME_CONFIG.ball.radius)
+  );
+  rings.forEach((ring, i) => {
+    const config = ringConfig(ring, GAME_CONFIG.rings[Math.min(i, GAME_CONFIG.rings.length - 1)]);
+    const sensorBand = config.thickness + config.escapeSensorOffset + config.escapeSensorThickness;
+    // Rings spin, so a box must contain the circle swept by the outline
+    if (createOutline(config).extent + sensorBand + ballRadius >= killExtent) {
+      throw new LevelValidationError(
+        bounds ? `${path}.bounds` : `${path}.rings[${i}]`,
+        bounds ? 'must enclose every ring and its escape sensors' : `does not fit inside the default world bounds (radius ${killExtent})`
+      );
+    }
+  });
+
+  const effects = optional(obj, 'effects', path, (v, p) => {
+    const entries = Object.entries(expectObject(v, p));
+    return Object.fromEntries(entries.map(([name, effect]) => [name, validateParticleEffect(effect, `${p}.${name}`)]));
+  });
+
+  const obstacles = optional(obj, 'obstacles', path, (v, p) => {
+    if (!Array.isArray(v)) {
+      throw new LevelValidationError(p, 'expected an array of obstacles');
+    }
+    return v.map((obstacle, i) => validateObstacle(obstacle, `${p}[${i}]`));
+  });
+
+  // Hit effects must name a built-in effect or one of the level's own
+  const checkEffect = (name: string | undefined, p: string) => {
+    if (name !== undefined && !Object.prototype.hasOwnProperty.call(GAME_CONFIG.particleEffects, name) &&
+      !(effects && Object.prototype.hasOwnProperty.call(effects, name))) {
+      throw new LevelValidationError(p, `unknown particle effect "${name}"`);
+    }
+  };
+  rings.forEach((ring, i) => checkEffect(ring.hitEffect, `${path}.rings[${i}].hitEffect`));
+  obstacles?.forEach((obstacle, i) => checkEffect(obstacle.hitEffect, `${path}.obstacles[${i}].hitEffect`));
+
+  const win = expectObject(obj.win, `${path}.win`);
+
+  return {
+    id: expectString(obj.id, `${path}.id`),
+    name: expectString(obj.name, `${path}.name`),
+    description: optional(obj, 'description', path, expectString),
+    rings,
+    spawn: optional(obj, 'spawn', path, validateSpawnRules),
+    powerUps: optional(obj, 'powerUps', path, validatePowerUps),
+    obstacles,
+    bounds,
+    effects,
+    ballRendering: optional(obj, 'ballRendering', path, (v, p) => {
+      if (v !== 'auto' && v !== 'graphics' && v !== 'batched') {
+        throw new LevelValidationError(p, `expected "auto", "graphics" or "batched", got ${JSON.stringify(v)}`);
+      }
+      return v;
+    }),
+    win: {
+      // An objective replaces the escape target
+      targetEscapes: win.objective !== undefined && win.targetEscapes === undefined
+        ? undefined
+        : Math.floor(expectNumber(win.targetEscapes, `${path}.win.targetEscapes`, 1)),
+      timeLimit: expectNumber(win.timeLimit, `${path}.win.timeLimit`, 1),
+      objective: optional(win, 'objective', `${path}.win`, validateObjective)
+    }
+  };
+}
+
+function gapConfig(gap: LevelGap): RingGapConfig {
+  return {
+    centerAngle: degToRad(gap.centerAngle),
+    width: degToRad(gap.width),
+    timing: gap.timing && { ...gap.timing }
+  };
+}
+
+function ringGaps(ring: LevelRing, base: RingConfig): RingGapConfig[] {
+  if (ring.gaps) return ring.gaps.map(gapConfig);
+  if (ring.gapAngle === undefined && ring.gapCenterAngle === undefined) return base.gaps;
+
+  // The shorthand replaces the base ring's gaps with a single one
+  const baseGap = base.gaps[0];
+  return [{
+    centerAngle: ring.gapCenterAngle !== undefined ? degToRad(ring.gapCenterAngle) : baseGap?.centerAngle ?? 0,
+    width: ring.gapAngle !== undefined ? degToRad(ring.gapAngle) : baseGap?.width ?? 0
+  }];
+}
+
+function shapeConfig(shape: ArenaShapeConfig): ArenaShapeConfig {
+  if ((shape.type === 'polygon' || shape.type === 'star') && shape.rotation !== undefined) {
+    return { ...shape, rotation: degToRad(shape.rotation) };
+  }
+  return shape;
+}
+
+function ringConfig(ring: LevelRing, base: RingConfig): RingConfig {
+  return {
+    ...base,
+    radius: ring.radius ?? base.radius,
+    thickness: ring.thickness ?? base.thickness,
+    shape: ring.shape ? shapeConfig(ring.shape) : base.shape,
+    gaps: ringGaps(ring, base),
+    spinSpeed: ring.spinSpeed !== undefined ? degToRad(ring.spinSpeed) : base.spinSpeed,
+    restitution: ring.restitution ?? base.restitution,
+    friction: ring.friction ?? base.friction,
+    color: ring.color !== undefined ? parseInt(ring.color.slice(1), 16) : base.color,
+    particles: ring.hitEffect ? { ...base.particles, effect: ring.hitEffect } : base.particles
+  };
+}
+
+function spawnConfig(spawn: LevelSpawn | undefined, base: BallSpawnConfig): BallSpawnConfig {
+  if (!spawn) return base;
+
+  const baseVelocity = 'magnitude' in base.velocity
+    ? base.velocity
+    : {
+      magnitude: Math.sqrt(base.velocity.x * base.velocity.x + base.velocity.y * base.velocity.y),
+      angle: Math.atan2(base.velocity.y, base.velocity.x)
+    };
+  const angleRange = spawn.angleRange
+    ? { min: degToRad(spawn.angleRange.min), max: degToRad(spawn.angleRange.max) }
+    : base.angleRange;
+
+  return {
+    position: spawn.position ?? base.position,
+    velocity: {
+      magnitude: spawn.speed ?? baseVelocity.magnitude,
+      angle: angleRange?.min ?? baseVelocity.angle
+    },
+    angleRange,
+    types: spawn.types ?? base.types
+  };
+}
+
+function obstacleConfig(obstacle: LevelObstacle, base: GameConfig): ObstacleConfig {
+  const defaults = base.obstacleDefaults[obstacle.type];
+  const material: ObstacleMaterialConfig = {
+    restitution: obstacle.restitution ?? defaults.restitution,
+    friction: obstacle.friction ?? defaults.friction,
+    color: obstacle.color !== undefined ? parseInt(obstacle.color.slice(1), 16) : defaults.color,
+    particles: obstacle.hitEffect ? { ...defaults.particles, effect: obstacle.hitEffect } : defaults.particles
+  };
+  const position = { x: obstacle.x ?? 0, y: obstacle.y ?? 0 };
+
+  switch (obstacle.type) {
+    case 'peg': {
+      const { radius } = base.obstacleDefaults.peg;
+      return { ...material, ...position, type: 'peg', radius: obstacle.radius ?? radius };
+    }
+    case 'bumper': {
+      const { radius, kick } = base.obstacleDefaults.bumper;
+      return { ...material, ...position, type: 'bumper', radius: obstacle.radius ?? radius, kick: obstacle.kick ?? kick };
+    }
+    case 'paddle': {
+      const { length, thickness, spinSpeed } = base.obstacleDefaults.paddle;
+      return {
+        ...material,
+        ...position,
+        type: 'paddle',
+        length: obstacle.length ?? length,
+        thickness: obstacle.thickness ?? thickness,
+        angle: degToRad(obstacle.angle ?? 0),
+        spinSpeed: obstacle.spinSpeed !== undefined ? degToRad(obstacle.spinSpeed) : spinSpeed
+      };
+    }
+    case 'movingWall': {
+      const { length, thickness, speed } = base.obstacleDefaults.movingWall;
+      return {
+        ...material,
+        type: 'movingWall',
+        path: obstacle.path!.map(point => ({ ...point })),
+        speed: obstacle.speed ?? speed,
+        loop: obstacle.loop ?? false,
+        length: obstacle.length ?? length,
+        thickness: obstacle.thickness ?? thickness,
+        angle: degToRad(obstacle.angle ?? 0)
+      };
+    }
+  }
+}
+
+function objectiveConfig(objective: LevelObjective): ObjectiveConfig {
+  switch (objective.type) {
+    case 'escapeColor':
+      return { ...objective, color: parseInt(objective.color.slice(1), 16) };
+    case 'all':
+    case 'any':
+      return { type: objective.type, objectives: objective.objectives.map(objectiveConfig) };
+    default:
+      return { ...objective };
+  }
+}
+
+function particleEffectConfigs(effects: Record<string, LevelParticleEffect>): Record<string, ParticleEffectConfig> {
+  return Object.fromEntries(Object.entries(effects).map(([name, effect]) => [name, {
+    ...effect,
+    colors: effect.colors?.map(color => parseInt(color.slice(1), 16))
+  }]));
+}
+
+/**
+ * Build the simulation config for a validated level on top of `base`
+ */
+export function levelToConfig(level: LevelDefinition, base: GameConfig = GAME_CONFIG): GameConfig {
+  const spawn = level.spawn ?? {};
+  const powerUps = level.powerUps ?? {};
+
+  return {
+    ...base,
+    levelId: level.id,
+    gameplay: {
+      maxBalls: spawn.maxBalls ?? base.gameplay.maxBalls,
+      targetEscapes: level.win.targetEscapes ?? (level.win.objective?.type === 'escape' ? level.win.objective.count : 0),
+      timeLimit: level.win.timeLimit,
+      objective: level.win.objective && objectiveConfig(level.win.objective)
+    },
+    // Rings beyond those in the base config start from its outermost ring
+    rings: level.rings.map((ring, i) => ringConfig(ring, base.rings[Math.min(i, base.rings.length - 1)])),
+    spawning: {
+      colorOrder: spawn.colorOrder ?? base.spawning.colorOrder,
+      initial: {
+        ...spawnConfig(spawn.initial, base.spawning.initial),
+        count: spawn.initial?.count ?? base.spawning.initial.count
+      },
+      onRingEscape: {
+        ...spawnConfig(spawn.onRingEscape, base.spawning.onRingEscape),
+        count: spawn.onRingEscape?.count ?? base.spawning.onRingEscape.count
+      }
+    },
+    obstacles: (level.obstacles ?? []).map(obstacle => obstacleConfig(obstacle, base)),
+    powerUps: {
+      ...base.powerUps,
+      enabled: powerUps.enabled ?? base.powerUps.enabled,
+      interval: powerUps.interval ?? base.powerUps.interval,
+      maxActive: powerUps.maxActive ?? base.powerUps.maxActive,
+      types: powerUps.types ?? base.powerUps.types
+    },
+    particleEffects: { ...base.particleEffects, ...particleEffectConfigs(level.effects ?? {}) },
+    ballRendering: {
+      ...base.ballRendering,
+      mode: level.ballRendering ?? base.ballRendering.mode
+    },
+    killBoundary: {
+      ...base.killBoundary,
+      shape: level.bounds ? { ...level.bounds } : base.killBoundary.shape
+    }
+  };
+}
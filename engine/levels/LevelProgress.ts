@@ -0,0 +1,32 @@
+const STORAGE_KEY = "ball-satisfaction:level-progress";
+
+/**
+ * Persists which levels the player has unlocked. Levels unlock in order:
+ * the first is always open and winning a level opens the next one.
+ */
+export class LevelProgress {
+  private unlockedCount: number;
+
+  constructor(private storage: Storage) {
+    const stored = Number(storage.getItem(STORAGE_KEY));
+    this.unlockedCount = Number.isInteger(stored) && stored > 0 ? stored : 1;
+  }
+
+  isUnlocked(levelIndex: number): boolean {
+    return levelIndex < this.unlockedCount;
+  }
+
+  getUnlockedCount(): number {
+    return this.unlockedCount;
+  }
+
+  /**
+   * Record a win, unlocking the level after it
+   */
+  completeLevel(levelIndex: number) {
+    if (levelIndex + 2 > this.unlockedCount) {
+      this.unlockedCount = levelIndex + 2;
+      this.storage.setItem(STORAGE_KEY, String(this.unlockedCount));
+    }
+  }
+}
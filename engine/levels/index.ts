@@ -0,0 +1,4 @@
+export { validateLevel, levelToConfig, LevelValidationError } from "./Level";
+export type { LevelDefinition, LevelRing, LevelSpawn, LevelSpawnRules, LevelWinConditions } from "./Level";
+export { loadLevels } from "./loadLevels";
+export { LevelProgress } from "./LevelProgress";
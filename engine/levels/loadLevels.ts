@@ -0,0 +1,26 @@
+import manifest from "../../levels/manifest.json";
+import { validateLevel, type LevelDefinition } from "./Level";
+
+/**
+ * Load and validate every level listed in levels/manifest.json, in order.
+ * Adding a level means dropping a JSON file into levels/ and listing it in
+ * the manifest.
+ */
+export async function loadLevels(): Promise<LevelDefinition[]> {
+  const files: string[] = manifest.levels;
+
+  const levels = await Promise.all(files.map(async (file) => {
+    const module = await import(`../../levels/${file}`);
+    return validateLevel(module.default ?? module, file);
+  }));
+
+  const ids = new Set<string>();
+  levels.forEach((level, i) => {
+    if (ids.has(level.id)) {
+      throw new Error(`${files[i]}: duplicate level id "${level.id}"`);
+    }
+    ids.add(level.id);
+  });
+
+  return levels;
+}
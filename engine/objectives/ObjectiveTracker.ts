@@ -0,0 +1,179 @@
+import type { ObjectiveConfig } from "../objects";
+
+export type ObjectiveStatus = 'pending' | 'complete' | 'failed';
+
+/** Where one objective stands, for the HUD; mirrors the objective tree */
+export interface ObjectiveProgress {
+  type: ObjectiveConfig['type'];
+  status: ObjectiveStatus;
+  /** Balls escaped or whole seconds survived so far */
+  current?: number;
+  target?: number;
+  /** Ball color for `escapeColor` */
+  color?: number;
+  /** Balls to keep inside for `survive` */
+  minBalls?: number;
+  /** Ring hits used and allowed for `escapeBeforeHits` */
+  hits?: { current: number; max: number };
+  children?: ObjectiveProgress[];
+}
+
+export interface ObjectiveTrackerState {
+  escapes: number;
+  colorEscapes: [color: number, count: number][];
+  kills: number;
+  ringHits: number;
+  /** Per objective in depth-first order: seconds survived and settled outcome */
+  objectives: { time: number; settled: ObjectiveStatus | null }[];
+}
+
+/**
+ * Evaluates a round's objective tree from the gameplay it is told about.
+ * Counters only ever grow, so most objectives are a pure function of them;
+ * those that depend on the order of events (`escapeBeforeHits`) settle
+ * their outcome once it is decided.
+ */
+export class ObjectiveTracker {
+  private escapes = 0;
+  private colorEscapes = new Map<number, number>();
+  private kills = 0;
+  private ringHits = 0;
+  /** Objectives in depth-first order, with their per-objective state at the same index */
+  private objectives: ObjectiveConfig[] = [];
+  private time: number[] = [];
+  private settled: (ObjectiveStatus | null)[] = [];
+
+  constructor(private config: ObjectiveConfig) {
+    const visit = (objective: ObjectiveConfig) => {
+      this.objectives.push(objective);
+      if (objective.type === 'all' || objective.type === 'any') {
+        objective.objectives.forEach(visit);
+      }
+    };
+    visit(config);
+    this.reset();
+  }
+
+  recordEscape(color: number) {
+    this.escapes++;
+    this.colorEscapes.set(color, (this.colorEscapes.get(color) ?? 0) + 1);
+    this.settle();
+  }
+
+  /**
+   * A ball left the world without escaping
+   */
+  recordKill() {
+    this.kills++;
+  }
+
+  recordRingHit() {
+    this.ringHits++;
+    this.settle();
+  }
+
+  /**
+   * Advance survival clocks by `dt` with `ballsInside` balls within the outermost ring
+   */
+  step(dt: number, ballsInside: number) {
+    this.objectives.forEach((objective, i) => {
+      if (objective.type === 'survive' && ballsInside >= objective.minBalls) {
+        this.time[i] += dt;
+      }
+    });
+  }
+
+  /**
+   * @param timeUp The round ran out of time, which settles objectives that hold until then
+   */
+  getStatus(timeUp: boolean = false): ObjectiveStatus {
+    return this.getProgress(timeUp).status;
+  }
+
+  getProgress(timeUp: boolean = false): ObjectiveProgress {
+    let index = 0;
+    const evaluate = (objective: ObjectiveConfig): ObjectiveProgress => {
+      const i = index++;
+      switch (objective.type) {
+        case 'escape':
+          return this.goal(objective.type, this.escapes, objective.count);
+        case 'escapeColor':
+          return { ...this.goal(objective.type, this.colorEscapes.get(objective.color) ?? 0, objective.count), color: objective.color };
+        case 'survive':
+          return {
+            ...this.goal(objective.type, Math.floor(this.time[i]), objective.seconds),
+            status: this.time[i] >= objective.seconds ? 'complete' : 'pending',
+            minBalls: objective.minBalls
+          };
+        case 'noKills':
+          return { type: objective.type, status: this.kills > 0 ? 'failed' : timeUp ? 'complete' : 'pending' };
+        case 'escapeBeforeHits':
+          return {
+            ...this.goal(objective.type, this.escapes, objective.count),
+            status: this.settled[i] ?? 'pending',
+            hits: { current: this.ringHits, max: objective.maxHits }
+          };
+        case 'all':
+        case 'any': {
+          const children = objective.objectives.map(evaluate);
+          const statuses = children.map(child => child.status);
+          const [decisive, other] = objective.type === 'all' ? ['failed', 'complete'] as const : ['complete', 'failed'] as const;
+          // A pending `noKills` still holds, so it doesn't keep an `all` group from completing
+          const holds = (child: ObjectiveProgress) => child.status === 'complete' || (child.type === 'noKills' && child.status === 'pending');
+          const status: ObjectiveStatus = statuses.includes(decisive) ? decisive
+            : objective.type === 'all' ? (children.every(holds) ? 'complete' : 'pending')
+            : statuses.every(s => s === 'failed') ? 'failed'
+            : 'pending';
+          return { type: objective.type, status, children };
+        }
+      }
+    };
+    return evaluate(this.config);
+  }
+
+  private goal(type: ObjectiveConfig['type'], current: number, target: number): ObjectiveProgress {
+    return { type, status: current >= target ? 'complete' : 'pending', current: Math.min(current, target), target };
+  }
+
+  /**
+   * Decide the objectives whose outcome depends on which came first
+   */
+  private settle() {
+    this.objectives.forEach((objective, i) => {
+      if (objective.type !== 'escapeBeforeHits' || this.settled[i]) return;
+      if (this.escapes >= objective.count) {
+        this.settled[i] = 'complete';
+      } else if (this.ringHits >= objective.maxHits) {
+        this.settled[i] = 'failed';
+      }
+    });
+  }
+
+  getState(): ObjectiveTrackerState {
+    return {
+      escapes: this.escapes,
+      colorEscapes: Array.from(this.colorEscapes.entries()),
+      kills: this.kills,
+      ringHits: this.ringHits,
+      objectives: this.objectives.map((_, i) => ({ time: this.time[i], settled: this.settled[i] }))
+    };
+  }
+
+  setState(state: ObjectiveTrackerState) {
+    this.escapes = state.escapes;
+    this.colorEscapes = new Map(state.colorEscapes);
+    this.kills = state.kills;
+    this.ringHits = state.ringHits;
+    this.time = state.objectives.map(objective => objective.time);
+    this.settled = state.objectives.map(objective => objective.settled);
+  }
+
+  reset() {
+    this.escapes = 0;
+    this.colorEscapes.clear();
+    this.kills = 0;
+    this.ringHits = 0;
+    this.time = this.objectives.map(() => 0);
+    this.settled = this.objectives.map(() => null);
+  }
+}
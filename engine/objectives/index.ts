@@ -0,0 +1,2 @@
+export { ObjectiveTracker } from "./ObjectiveTracker";
+export type { ObjectiveProgress, ObjectiveStatus, ObjectiveTrackerState } from "./ObjectiveTracker";
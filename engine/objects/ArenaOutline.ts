@@ -0,0 +1,316 @@
+import type { ArenaShapeConfig, RingConfig } from "./interfaces";
+
+/** A point on an outline with the direction (radians) the outline runs in there */
+export interface OutlinePoint {
+  x: number;
+  y: number;
+  tangent: number;
+}
+
+/**
+ * Closed wall path of an arena, centered on the arena body and parametrized
+ * by arc length in the direction of increasing angle around the center.
+ * Gaps are given as angles around the center, so outlines are expected to be
+ * star-shaped: every ray from the center crosses them once.
+ */
+export interface ArenaOutline {
+  readonly length: number;
+  /** Distance from the center to the farthest point of the outline */
+  readonly extent: number;
+  pointAt(s: number): OutlinePoint;
+  /** Arc length where the ray from the center at `angle` crosses the outline */
+  lengthAtAngle(angle: number): number;
+  /** Points from `s0` to `s1` (wrapping past the end), including any corners in between */
+  pointsBetween(s0: number, s1: number, step: number): { x: number; y: number }[];
+}
+
+const TWO_PI = 2 * Math.PI;
+const wrap = (value: number, period: number) => ((value % period) + period) % period;
+
+class CircleOutline implements ArenaOutline {
+  readonly length: number;
+  readonly extent: number;
+
+  constructor(private radius: number) {
+    this.length = TWO_PI * radius;
+    this.extent = radius;
+  }
+
+  pointAt(s: number): OutlinePoint {
+    const angle = s / this.radius;
+    return {
+      x: this.radius * Math.cos(angle),
+      y: this.radius * Math.sin(angle),
+      tangent: angle + Math.PI / 2
+    };
+  }
+
+  lengthAtAngle(angle: number): number {
+    return wrap(angle, TWO_PI) * this.radius;
+  }
+
+  pointsBetween(s0: number, s1: number, step: number): { x: number; y: number }[] {
+    const end = s1 < s0 ? s1 + this.length : s1;
+    const count = Math.max(1, Math.ceil((end - s0) / step));
+    const points = [];
+    for (let i = 0; i <= count; i++) {
+      const { x, y } = this.pointAt(s0 + (end - s0) * i / count);
+      points.push({ x, y });
+    }
+    return points;
+  }
+}
+
+class PolylineOutline implements ArenaOutline {
+  readonly length: number;
+  readonly extent: number;
+  private vertices: { x: number; y: number }[];
+  /** Arc length at each vertex; the last entry closes the loop */
+  private distances: number[] = [0];
+
+  constructor(vertices: { x: number; y: number }[]) {
+    // Walk the outline in the direction of increasing angle, like a circle
+    const area = vertices.reduce((sum, a, i) => {
+      const b = vertices[(i + 1) % vertices.length];
+      return sum + a.x * b.y - b.x * a.y;
+    }, 0);
+    this.vertices = area >= 0 ? vertices : [...vertices].reverse();
+
+    let length = 0;
+    this.vertices.forEach((a, i) => {
+      const b = this.vertices[(i + 1) % this.vertices.length];
+      length += Math.hypot(b.x - a.x, b.y - a.y);
+      this.distances.push(length);
+    });
+    this.length = length;
+    this.extent = Math.max(...this.vertices.map(v => Math.hypot(v.x, v.y)));
+  }
+
+  private edgeAt(s: number): number {
+    let lo = 0;
+    let hi = this.vertices.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this.distances[mid] <= s) lo = mid; else hi = mid - 1;
+    }
+    return lo;
+  }
+
+  pointAt(s: number): OutlinePoint {
+    s = wrap(s, this.length);
+    const i = this.edgeAt(s);
+    const a = this.vertices[i];
+    const b = this.vertices[(i + 1) % this.vertices.length];
+    const edgeLength = this.distances[i + 1] - this.distances[i];
+    const t = edgeLength > 0 ? (s - this.distances[i]) / edgeLength : 0;
+    return {
+      x: a.x + (b.x - a.x) * t,
+      y: a.y + (b.y - a.y) * t,
+      tangent: Math.atan2(b.y - a.y, b.x - a.x)
+    };
+  }
+
+  lengthAtAngle(angle: number): number {
+    const dx = Math.cos(angle);
+    const dy = Math.sin(angle);
+
+    for (let i = 0; i < this.vertices.length; i++) {
+      const a = this.vertices[i];
+      const b = this.vertices[(i + 1) % this.vertices.length];
+      const ex = b.x - a.x;
+      const ey = b.y - a.y;
+
+      // Solve origin + r·d = a + t·e for the ray distance r and edge fraction t
+      const denom = dx * ey - dy * ex;
+      if (Math.abs(denom) < 1e-12) continue;
+      const r = (a.x * ey - a.y * ex) / denom;
+      const t = (a.x * dy - a.y * dx) / denom;
+      if (r > 0 && t >= 0 && t < 1) {
+        return this.distances[i] + t * (this.distances[i + 1] - this.distances[i]);
+      }
+    }
+    return 0;
+  }
+
+  pointsBetween(s0: number, s1: number, _step: number): { x: number; y: number }[] {
+    const end = s1 < s0 ? s1 + this.length : s1;
+    const points: { x: number; y: number }[] = [this.pointAt(s0)];
+
+    // Corners between the two ends, on this lap and (when wrapping) the next
+    for (let lap = 0; lap <= 1; lap++) {
+      for (let i = 1; i <= this.vertices.length; i++) {
+        const s = this.distances[i] + lap * this.length;
+        if (s > s0 && s < end) {
+          points.push(this.vertices[i % this.vertices.length]);
+        }
+      }
+    }
+
+    points.push(this.pointAt(end));
+    return points.map(({ x, y }) => ({ x, y }));
+  }
+}
+
+/** Line segments used to approximate each curve of a path */
+const CURVE_STEPS = 16;
+
+/**
+ * Parse an SVG-like path (M, L, H, V, Q, C and Z, absolute or relative) in
+ * meters into the vertices of one closed polyline. Throws on anything else.
+ */
+export function parsePath(d: string): { x: number; y: number }[] {
+  const tokens = d.match(/[a-zA-Z]|[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g) ?? [];
+  const points: { x: number; y: number }[] = [];
+  let index = 0;
+  let command = '';
+  let x = 0;
+  let y = 0;
+
+  const number = () => {
+    const token = tokens[index++];
+    const value = Number(token);
+    if (token === undefined || !isFinite(value)) {
+      throw new Error(`expected a number after "${command}"`);
+    }
+    return value;
+  };
+
+  while (index < tokens.length) {
+    if (/[a-zA-Z]/.test(tokens[index])) {
+      command = tokens[index++];
+    } else if (!command) {
+      throw new Error('path must start with a command');
+    }
+
+    const relative = command === command.toLowerCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+
+    switch (command.toUpperCase()) {
+      case 'M':
+      case 'L':
+        x = ox + number();
+        y = oy + number();
+        points.push({ x, y });
+        break;
+      case 'H':
+        x = ox + number();
+        points.push({ x, y });
+        break;
+      case 'V':
+        y = oy + number();
+        points.push({ x, y });
+        break;
+      case 'Q': {
+        const x0 = x, y0 = y;
+        const cx = ox + number(), cy = oy + number();
+        x = ox + number();
+        y = oy + number();
+        for (let i = 1; i <= CURVE_STEPS; i++) {
+          const t = i / CURVE_STEPS, u = 1 - t;
+          points.push({
+            x: u * u * x0 + 2 * u * t * cx + t * t * x,
+            y: u * u * y0 + 2 * u * t * cy + t * t * y
+          });
+        }
+        break;
+      }
+      case 'C': {
+        const x0 = x, y0 = y;
+        const c1x = ox + number(), c1y = oy + number();
+        const c2x = ox + number(), c2y = oy + number();
+        x = ox + number();
+        y = oy + number();
+        for (let i = 1; i <= CURVE_STEPS; i++) {
+          const t = i / CURVE_STEPS, u = 1 - t;
+          points.push({
+            x: u * u * u * x0 + 3 * u * u * t * c1x + 3 * u * t * t * c2x + t * t * t * x,
+            y: u * u * u * y0 + 3 * u * u * t * c1y + 3 * u * t * t * c2y + t * t * t * y
+          });
+        }
+        break;
+      }
+      case 'Z':
+        // The outline is always closed; Z only ends the path
+        index = tokens.length;
+        break;
+      default:
+        throw new Error(`unsupported path command "${command}"`);
+    }
+  }
+
+  // Drop a closing point that repeats the start, as well as zero-length edges
+  const vertices = points.filter((p, i) => {
+    const next = points[(i + 1) % points.length];
+    return Math.hypot(next.x - p.x, next.y - p.y) > 1e-9;
+  });
+  if (vertices.length < 3) {
+    throw new Error('path needs at least three distinct points');
+  }
+
+  // Gaps, escapes and the outline's extent assume every ray from the center
+  // crosses the path once: it must keep turning the same way around the center, once
+  let winding = 0;
+  const turns = vertices.map((a, i) => {
+    const b = vertices[(i + 1) % vertices.length];
+    const turn = Math.atan2(a.x * b.y - a.y * b.x, a.x * b.x + a.y * b.y);
+    winding += turn;
+    return turn;
+  });
+  const sameWay = turns.every(turn => turn > 1e-9) || turns.every(turn => turn < -1e-9);
+  if (!sameWay || Math.abs(Math.abs(winding) - TWO_PI) > 1e-6) {
+    throw new Error('path must go once around the ring center, crossing every ray from it once');
+  }
+  return vertices;
+}
+
+function regularVertices(count: number, radiusAt: (i: number) => number, rotation: number) {
+  return Array.from({ length: count }, (_, i) => {
+    const angle = rotation + TWO_PI * i / count;
+    return { x: radiusAt(i) * Math.cos(angle), y: radiusAt(i) * Math.sin(angle) };
+  });
+}
+
+function roundedRectVertices(width: number, height: number, cornerRadius: number) {
+  const r = Math.min(cornerRadius, width / 2, height / 2);
+  const hw = width / 2 - r;
+  const hh = height / 2 - r;
+  if (r <= 0) {
+    return [{ x: hw, y: -hh }, { x: hw, y: hh }, { x: -hw, y: hh }, { x: -hw, y: -hh }];
+  }
+
+  // Quarter circles around each corner, walking in increasing angle
+  const corners = [{ x: hw, y: hh }, { x: -hw, y: hh }, { x: -hw, y: -hh }, { x: hw, y: -hh }];
+  const vertices: { x: number; y: number }[] = [];
+  corners.forEach((corner, i) => {
+    for (let j = 0; j <= 8; j++) {
+      const angle = (i + j / 8) * Math.PI / 2;
+      vertices.push({ x: corner.x + r * Math.cos(angle), y: corner.y + r * Math.sin(angle) });
+    }
+  });
+  return vertices;
+}
+
+/**
+ * Build the wall outline for a ring config; circles are the default shape
+ */
+export function createOutline(config: RingConfig): ArenaOutline {
+  const shape: ArenaShapeConfig = config.shape ?? { type: 'circle' };
+
+  switch (shape.type) {
+    case 'circle':
+      return new CircleOutline(config.radius);
+    case 'polygon':
+      return new PolylineOutline(regularVertices(shape.sides, () => config.radius, shape.rotation ?? 0));
+    case 'star':
+      return new PolylineOutline(regularVertices(
+        shape.points * 2,
+        i => i % 2 === 0 ? config.radius : shape.innerRadius,
+        shape.rotation ?? 0
+      ));
+    case 'roundedRect':
+      return new PolylineOutline(roundedRectVertices(shape.width, shape.height, shape.cornerRadius));
+    case 'path':
+      return new PolylineOutline(parsePath(shape.path));
+  }
+}
@@ -1,30 +1,44 @@
-import * as PIXI from "pixi.js";
 import type RAPIER from "@dimforge/rapier2d-deterministic";
-import { GlowFilter } from 'pixi-filters';
 import { Prefab } from "./Prefab";
-import { m2p } from "../scale";
-import type { BallConfig, TrailSegment } from "./interfaces";
+import type { BallConfig, PrefabState } from "./interfaces";
 
-export class Ball extends Prefab {
-  private trailHistory: TrailSegment[] = [];
-  private trailGraphic: PIXI.Graphics;
-  private ballGraphic: PIXI.Graphics;
-  private lastTrailUpdate: number = 0;
+/** Collision group bits for balls; walls and sensors keep Rapier's default (all groups) */
+export const BALL_GROUP = 0x0001;
+export const GHOST_BALL_GROUP = 0x0002;
+
+/**
+ * Pack Rapier interaction groups: the groups a collider belongs to in the
+ * high 16 bits and the groups it collides with in the low 16 bits
+ */
+export function interactionGroups(membership: number, filter: number): number {
+  return ((membership & 0xFFFF) << 16) | (filter & 0xFFFF);
+}
+
+const DEFAULT_BALL_GROUPS = interactionGroups(BALL_GROUP, 0xFFFF);
 
+export class Ball extends Prefab {
   constructor(
     world: RAPIER.World,
     R: typeof RAPIER,
-    private config: BallConfig,
+    public config: BallConfig,
     private spawnX: number,
     private spawnY: number,
-    private initialVelocity: { x: number; y: number }
+    private initialVelocity: { x: number; y: number },
+    state?: PrefabState
   ) {
     super(world, R);
-    this.trailGraphic = new PIXI.Graphics();
-    this.ballGraphic = new PIXI.Graphics();
-    this.init();
-    // Set initial velocity after physics creation
-    this.body.setLinvel(this.initialVelocity, true);
+    this.init(state);
+    // Set initial velocity after physics creation (a restored ball keeps its own)
+    if (!state) {
+      this.body.setLinvel(this.initialVelocity, true);
+    }
+  }
+
+  /**
+   * Rebuild a ball from its handles in a restored world snapshot
+   */
+  static fromState(world: RAPIER.World, R: typeof RAPIER, config: BallConfig, state: PrefabState): Ball {
+    return new Ball(world, R, config, 0, 0, { x: 0, y: 0 }, state);
   }
 
   protected createPhysics() {
@@ -34,155 +48,57 @@ export class Ball extends Prefab {
         .setCcdEnabled(true) // CCD enabled by default for all dynamic objects
     );
 
-    // Store ball color in userData for particle system access
-    this.body.userData = { color: this.config.color };
+    this.setUserData();
 
     const collider = this.R.ColliderDesc.ball(this.config.radius)
+      .setDensity(this.config.density)
       .setRestitution(this.config.restitution)
-      .setFriction(this.config.friction);
+      .setFriction(this.config.friction)
+      .setCollisionGroups(this.config.collisionGroups ?? DEFAULT_BALL_GROUPS);
     this.world.createCollider(collider, this.body);
   }
 
-    protected createGraphics() {
-    // Create the ball graphic (this will be rotated)
-    this.ballGraphic.circle(0, 0, m2p(this.config.radius));
-    this.ballGraphic.fill(this.config.color);
-
-    // Apply glow effect if enabled
-    if (this.config.glow.enabled) {
-      const glowFilter = new GlowFilter({
-        distance: this.config.glow.distance,
-        outerStrength: this.config.glow.outerStrength,
-        color: this.config.glow.color ?? this.config.color, // Use ball color if glow color not specified
-        quality: this.config.glow.quality
-      });
-      this.ballGraphic.filters = [glowFilter];
-    }
-
-    // Create container to hold both trail and ball
-    const container = new PIXI.Container();
-    container.addChild(this.trailGraphic); // Trail behind ball (won't rotate)
-    container.addChild(this.ballGraphic); // Ball in front (will rotate independently)
-
-    this.graphic = container;
+  protected restoreState(state: PrefabState) {
+    super.restoreState(state);
+    // User data isn't part of world snapshots
+    this.setUserData();
   }
 
-  updateFromPhysics() {
-    const p = this.body.translation();
-    // Set position of the entire container (ball + trail)
-    this.graphic.position.set(m2p(p.x), m2p(p.y));
-
-    // Only rotate the ball graphic, not the entire container
-    this.ballGraphic.rotation = this.body.rotation();
-
-    // Update trail if enabled
-    if (this.config.trail.enabled) {
-      this.updateTrail(p.x, p.y);
-    }
+  private setUserData() {
+    // Store ball color and type in userData for particle system access
+    this.body.userData = { color: this.config.color, type: this.config.type };
   }
 
-  private updateTrail(physicsX: number, physicsY: number) {
-    const now = performance.now();
-
-    // Throttle trail updates based on updateInterval
-    if (now - this.lastTrailUpdate < this.config.trail.updateInterval) {
-      return;
-    }
-
-    this.lastTrailUpdate = now;
-
-    // Add current position to trail history
-    this.trailHistory.push({
-      x: physicsX,
-      y: physicsY,
-      timestamp: now
-    });
-
-    // Remove old segments beyond maxLength
-    while (this.trailHistory.length > this.config.trail.maxLength) {
-      this.trailHistory.shift();
-    }
-
-    // Render the trail
-    this.renderTrail();
+  /**
+   * Take the ball out of play, keeping its body and collider in the world for reuse
+   */
+  deactivate() {
+    this.body.setLinvel({ x: 0, y: 0 }, false);
+    this.body.setAngvel(0, false);
+    this.body.setEnabled(false);
   }
 
-  private renderTrail() {
-    this.trailGraphic.clear();
-
-    if (this.trailHistory.length < 2) {
-      return;
-    }
-
-    const trailColor = this.config.trail.color ?? this.config.color;
-    const ballRadius = m2p(this.config.radius);
-    const maxTrailWidth = ballRadius * 2 * this.config.trail.width; // Start with ball diameter
-
-    // Draw trail segments
-    for (let i = 1; i < this.trailHistory.length; i++) {
-      const current = this.trailHistory[i];
-      const previous = this.trailHistory[i - 1];
-
-      // Calculate fade based on position in trail (newer = more opaque)
-      const progress = i / this.trailHistory.length;
-      // Non-linear fade - quadratic curve makes tail fade faster
-      const fadeProgress = progress ** 3;
-      const alpha = this.config.trail.fadeAlpha + ((1 - this.config.trail.fadeAlpha)) * fadeProgress;
-
-      // Calculate width tapering - start wide and taper to thin
-      // progress = 1 (newest) should have max width, progress = 0 (oldest) should have min width
-      const width = maxTrailWidth * progress;
-
-      // Convert physics coordinates to pixel coordinates relative to ball position
-      const currentPixel = { x: m2p(current.x), y: m2p(current.y) };
-      const previousPixel = { x: m2p(previous.x), y: m2p(previous.y) };
-
-      // Get ball's current position in pixels
-      const ballPixelPos = { x: m2p(this.body.translation().x), y: m2p(this.body.translation().y) };
-
-      // Make trail coordinates relative to ball's current position
-      const relativeStart = {
-        x: previousPixel.x - ballPixelPos.x,
-        y: previousPixel.y - ballPixelPos.y
-      };
-      const relativeEnd = {
-        x: currentPixel.x - ballPixelPos.x,
-        y: currentPixel.y - ballPixelPos.y
-      };
-
-      // Draw trail segment
-      this.trailGraphic.moveTo(relativeStart.x, relativeStart.y);
-      this.trailGraphic.lineTo(relativeEnd.x, relativeEnd.y);
-      this.trailGraphic.stroke({
-        color: trailColor,
-        width: Math.max(0.5, width),
-        alpha: alpha,
-        cap: 'round',
-        join: 'round'
-      });
-    }
-  }
-
-  clearTrail() {
-    this.trailHistory = [];
-    this.trailGraphic.clear();
-  }
-
-  setTrailEnabled(enabled: boolean) {
-    this.config.trail.enabled = enabled;
-    if (!enabled) {
-      this.clearTrail();
-    }
-  }
-
-  // Override destroy to cleanup trail
-  destroy() {
-    this.clearTrail();
-    if (this.trailGraphic) {
-      this.trailGraphic.destroy();
-    }
-    if (this.ballGraphic) {
-      this.ballGraphic.destroy();
-    }
+  /**
+   * Put a deactivated ball back into play as a new ball
+   */
+  respawn(config: BallConfig, x: number, y: number, velocity: { x: number; y: number }) {
+    this.config = config;
+    this.setUserData();
+
+    const collider = this.body.collider(0);
+    collider.setRadius(config.radius);
+    collider.setDensity(config.density);
+    collider.setRestitution(config.restitution);
+    collider.setFriction(config.friction);
+    collider.setCollisionGroups(config.collisionGroups ?? DEFAULT_BALL_GROUPS);
+
+    this.body.setTranslation({ x, y }, false);
+    this.body.setRotation(0, false);
+    this.body.resetForces(false);
+    this.body.resetTorques(false);
+    this.body.setAngvel(0, false);
+    this.body.setLinvel(velocity, false);
+    this.body.setEnabled(true);
+    this.body.wakeUp();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,33 @@
+import type RAPIER from "@dimforge/rapier2d-deterministic";
+import { Obstacle } from "./Obstacle";
+import type { ObstacleConfig, ObstacleState } from "./interfaces";
+
+type BumperConfig = Extract<ObstacleConfig, { type: 'bumper' }>;
+
+/** Pinball bumper: a fixed post that kicks balls away on contact */
+export class Bumper extends Obstacle<BumperConfig> {
+  constructor(world: RAPIER.World, R: typeof RAPIER, config: BumperConfig, index: number, state?: ObstacleState) {
+    super(world, R, config, index);
+    this.init(state);
+  }
+
+  protected createPhysics() {
+    this.body = this.world.createRigidBody(
+      this.R.RigidBodyDesc.fixed()
+        .setTranslation(this.config.x, this.config.y)
+    );
+    this.attachCollider(this.R.ColliderDesc.ball(this.config.radius));
+  }
+
+  protected handleBallContact(ball: RAPIER.RigidBody) {
+    const p = ball.translation();
+    const dx = p.x - this.config.x;
+    const dy = p.y - this.config.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    if (distance === 0) return;
+
+    // Scaled by mass so every ball type gains the same speed
+    const impulse = this.config.kick * ball.mass() / distance;
+    ball.applyImpulse({ x: dx * impulse, y: dy * impulse }, true);
+  }
+}
@@ -1,49 +1,58 @@
-import * as PIXI from "pixi.js";
 import type RAPIER from "@dimforge/rapier2d-deterministic";
 import { Prefab } from "./Prefab";
-import { m2p, p2m } from "../scale";
-import type { KillBoundaryConfig } from "./interfaces";
-
+import type { KillBoundaryConfig, KillBoundaryState } from "./interfaces";
+import { EventEmitter } from "../events";
+
+export interface KillBoundaryEvents {
+  /** A ball left the world bounds; fires once per ball */
+  kill: { body: RAPIER.RigidBody };
+}
+
+/** Sensor segments around a circular boundary */
+const CIRCLE_SEGMENTS = 64;
+
+/**
+ * Sensors just outside the world bounds (`config.shape`, in world units
+ * around the arena center) that report balls leaving the world. The bounds
+ * don't depend on the screen, so a ball's fate is the same on every device.
+ */
 export class KillBoundary extends Prefab {
+  readonly events = new EventEmitter<KillBoundaryEvents>();
   private killSensorColliders: RAPIER.Collider[] = [];
-  private onBallKill?: (killedBall: RAPIER.RigidBody) => void;
   private killedBallHandles = new Set<number>();
-  private screenDimensions: { width: number; height: number };
 
   constructor(
     world: RAPIER.World,
     R: typeof RAPIER,
     private config: KillBoundaryConfig,
-    screenWidth: number,
-    screenHeight: number
+    state?: KillBoundaryState
   ) {
     super(world, R);
-    this.screenDimensions = { width: screenWidth, height: screenHeight };
-    this.init();
+    this.init(state);
   }
 
-  setKillHandler(handler: (killedBall: RAPIER.RigidBody) => void) {
-    this.onBallKill = handler;
+  saveState(): KillBoundaryState {
+    return {
+      ...super.saveState(),
+      killSensorColliders: this.killSensorColliders.map(c => c.handle),
+      killedBalls: Array.from(this.killedBallHandles)
+    };
   }
 
-  updateScreenDimensions(width: number, height: number) {
-    this.screenDimensions = { width, height };
-    this.recreateBoundaries();
+  protected restoreState(state: KillBoundaryState) {
+    super.restoreState(state);
+    this.killSensorColliders = state.killSensorColliders.map(h => this.world.getCollider(h));
+    this.killedBallHandles = new Set(state.killedBalls);
   }
 
-  private recreateBoundaries() {
-    // Remove existing colliders
-    this.killSensorColliders.forEach(collider => {
-      this.world.removeCollider(collider, false);
-    });
-    this.killSensorColliders = [];
-
-    // Remove existing graphics
-    this.graphic.removeChildren();
-
-    // Recreate physics and graphics
-    this.createPhysics();
-    this.createGraphics();
+  /**
+   * Width and height of the world bounds in physics units
+   */
+  getSize(): { width: number; height: number } {
+    const shape = this.config.shape;
+    return shape.type === 'circle'
+      ? { width: shape.radius * 2, height: shape.radius * 2 }
+      : { width: shape.width, height: shape.height };
   }
 
   protected createPhysics() {
@@ -53,48 +62,42 @@ export class KillBoundary extends Prefab {
         .setTranslation(0, 0)
     );
 
-    // Convert screen dimensions to physics units (screen center is at 0,0)
-    const screenWidthPhysics = p2m(this.screenDimensions.width);
-    const screenHeightPhysics = p2m(this.screenDimensions.height);
-    const halfWidth = screenWidthPhysics / 2;
-    const halfHeight = screenHeightPhysics / 2;
-
-    // Create four boundary boxes
-    const boundaries = [
-      // Top boundary
-      {
-        x: 0,
-        y: -halfHeight - this.config.offset - this.config.thickness / 2,
-        width: screenWidthPhysics + 2 * this.config.offset,
-        height: this.config.thickness
-      },
-      // Bottom boundary
-      {
-        x: 0,
-        y: halfHeight + this.config.offset + this.config.thickness / 2,
-        width: screenWidthPhysics + 2 * this.config.offset,
-        height: this.config.thickness
-      },
-      // Left boundary
-      {
-        x: -halfWidth - this.config.offset - this.config.thickness / 2,
-        y: 0,
-        width: this.config.thickness,
-        height: screenHeightPhysics + 2 * this.config.offset
-      },
-      // Right boundary
-      {
-        x: halfWidth + this.config.offset + this.config.thickness / 2,
-        y: 0,
-        width: this.config.thickness,
-        height: screenHeightPhysics + 2 * this.config.offset
+    const thickness = this.config.thickness;
+    const shape = this.config.shape;
+    const boundaries: { x: number; y: number; width: number; height: number; rotation: number }[] = [];
+
+    if (shape.type === 'circle') {
+      // Segments tangent to the circle, long enough to overlap their neighbours
+      const distance = shape.radius + thickness / 2;
+      const length = 2 * Math.PI * (shape.radius + thickness) / CIRCLE_SEGMENTS * 1.1;
+      for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+        const angle = (i / CIRCLE_SEGMENTS) * 2 * Math.PI;
+        boundaries.push({
+          x: distance * Math.cos(angle),
+          y: distance * Math.sin(angle),
+          width: length,
+          height: thickness,
+          rotation: angle + Math.PI / 2
+        });
       }
-    ];
+    } else {
+      const halfWidth = shape.width / 2;
+      const halfHeight = shape.height / 2;
+      boundaries.push(
+        // Top and bottom, spanning the corners
+        { x: 0, y: -halfHeight - thickness / 2, width: shape.width + 2 * thickness, height: thickness, rotation: 0 },
+        { x: 0, y: halfHeight + thickness / 2, width: shape.width + 2 * thickness, height: thickness, rotation: 0 },
+        // Left and right
+        { x: -halfWidth - thickness / 2, y: 0, width: thickness, height: shape.height, rotation: 0 },
+        { x: halfWidth + thickness / 2, y: 0, width: thickness, height: shape.height, rotation: 0 }
+      );
+    }
 
     boundaries.forEach(boundary => {
       const collider = this.world.createCollider(
         this.R.ColliderDesc.cuboid(boundary.width / 2, boundary.height / 2)
           .setTranslation(boundary.x, boundary.y)
+          .setRotation(boundary.rotation)
           .setSensor(true)
           .setActiveEvents(this.R.ActiveEvents.COLLISION_EVENTS)
           .setEnabled(true),
@@ -104,11 +107,6 @@ export class KillBoundary extends Prefab {
     });
   }
 
-  protected createGraphics() {
-    const g = new PIXI.Graphics();
-    this.graphic = g;
-  }
-
   processCollisionEvent(h1: number, h2: number, started: boolean) {
     if (!started) return;
 
@@ -134,9 +132,7 @@ export class KillBoundary extends Prefab {
 
     this.killedBallHandles.add(ballHandle);
 
-    if (this.onBallKill) {
-      this.onBallKill(killedBall);
-    }
+    this.events.emit('kill', { body: killedBall });
   }
 
   /**
@@ -145,4 +141,4 @@ export class KillBoundary extends Prefab {
   cleanupKilledBall(ballHandle: number) {
     this.killedBallHandles.delete(ballHandle);
   }
-}
\ No newline at end of file
+}
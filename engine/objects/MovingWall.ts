@@ -0,0 +1,63 @@
+import type RAPIER from "@dimforge/rapier2d-deterministic";
+import { Obstacle } from "./Obstacle";
+import type { ObstacleConfig, ObstacleState } from "./interfaces";
+
+type MovingWallConfig = Extract<ObstacleConfig, { type: 'movingWall' }>;
+
+/** Bar gliding along a path of waypoints at a constant speed */
+export class MovingWall extends Obstacle<MovingWallConfig> {
+  /** Waypoints walked in order; a looping path ends where it starts */
+  private points: { x: number; y: number }[];
+  private segmentLengths: number[];
+  private pathLength: number;
+
+  constructor(world: RAPIER.World, R: typeof RAPIER, config: MovingWallConfig, index: number, state?: ObstacleState) {
+    super(world, R, config, index);
+    this.points = config.loop ? [...config.path, config.path[0]] : config.path;
+    this.segmentLengths = this.points.slice(1).map((p, i) =>
+      Math.sqrt((p.x - this.points[i].x) ** 2 + (p.y - this.points[i].y) ** 2)
+    );
+    this.pathLength = this.segmentLengths.reduce((sum, length) => sum + length, 0);
+    this.init(state);
+  }
+
+  protected createPhysics() {
+    const start = this.config.path[0];
+    this.body = this.world.createRigidBody(
+      this.R.RigidBodyDesc.kinematicPositionBased()
+        .setTranslation(start.x, start.y)
+        .setRotation(this.config.angle)
+    );
+    this.attachCollider(this.R.ColliderDesc.cuboid(this.config.length / 2, this.config.thickness / 2));
+  }
+
+  step(fixedStep: number) {
+    super.step(fixedStep);
+    this.body.setNextKinematicTranslation(this.positionAt(this.config.speed * this.time));
+  }
+
+  /**
+   * Point `distance` meters along the path, wrapping around a loop or
+   * turning back at the ends of an open path
+   */
+  private positionAt(distance: number): { x: number; y: number } {
+    if (this.pathLength === 0) return this.points[0];
+
+    let d = distance % (this.config.loop ? this.pathLength : 2 * this.pathLength);
+    if (d > this.pathLength) {
+      d = 2 * this.pathLength - d;
+    }
+
+    for (let i = 0; i < this.segmentLengths.length; i++) {
+      const length = this.segmentLengths[i];
+      if (d <= length || i === this.segmentLengths.length - 1) {
+        const t = length === 0 ? 0 : Math.min(1, d / length);
+        const a = this.points[i];
+        const b = this.points[i + 1];
+        return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+      }
+      d -= length;
+    }
+    return this.points[0];
+  }
+}
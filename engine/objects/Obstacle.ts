@@ -0,0 +1,127 @@
+import type RAPIER from "@dimforge/rapier2d-deterministic";
+import { Prefab } from "./Prefab";
+import { EventEmitter } from "../events";
+import type { ObstacleConfig, ObstacleHit, ObstacleState } from "./interfaces";
+
+export interface ObstacleEvents {
+  /** A ball struck the obstacle (rate limited per ball by `particles.cooldownDuration`) */
+  hit: ObstacleHit;
+}
+
+/**
+ * Base class for pegs, bumpers, paddles and moving walls inside the arena.
+ * Each subclass builds one collider on its body; moving obstacles derive
+ * their pose from `time`, so they replay and restore exactly.
+ */
+export abstract class Obstacle<C extends ObstacleConfig = ObstacleConfig> extends Prefab {
+  readonly events = new EventEmitter<ObstacleEvents>();
+  protected collider!: RAPIER.Collider;
+  /** Seconds the obstacle has been moving */
+  protected time = 0;
+  /** Time of the last reported hit per ball handle */
+  private lastHitTime = new Map<number, number>();
+
+  constructor(
+    world: RAPIER.World,
+    R: typeof RAPIER,
+    readonly config: C,
+    /** Position in `GameConfig.obstacles` */
+    readonly index: number
+  ) {
+    super(world, R);
+  }
+
+  saveState(): ObstacleState {
+    return {
+      ...super.saveState(),
+      collider: this.collider.handle,
+      time: this.time,
+      hits: Array.from(this.lastHitTime.entries())
+    };
+  }
+
+  protected restoreState(state: ObstacleState) {
+    super.restoreState(state);
+    this.collider = this.world.getCollider(state.collider);
+    this.time = state.time;
+    this.lastHitTime = new Map(state.hits);
+  }
+
+  /**
+   * Attach the obstacle's collider with its material and collision events
+   */
+  protected attachCollider(desc: RAPIER.ColliderDesc) {
+    this.collider = this.world.createCollider(
+      desc
+        .setFriction(this.config.friction)
+        .setRestitution(this.config.restitution)
+        .setActiveEvents(this.R.ActiveEvents.COLLISION_EVENTS),
+      this.body
+    );
+  }
+
+  step(fixedStep: number) {
+    this.time += fixedStep;
+  }
+
+  /**
+   * Seconds since any ball last hit the obstacle, or Infinity if none has
+   */
+  getTimeSinceHit(): number {
+    let last = -Infinity;
+    this.lastHitTime.forEach(time => last = Math.max(last, time));
+    return this.time - last;
+  }
+
+  processCollisionEvent(h1: number, h2: number, started: boolean) {
+    if (!started) return;
+    if (h1 !== this.collider.handle && h2 !== this.collider.handle) return;
+
+    const ballCollider = this.world.getCollider(h1 === this.collider.handle ? h2 : h1);
+    const ball = ballCollider?.parent();
+    if (!ball || !ball.isDynamic()) return;
+
+    this.handleBallContact(ball);
+    this.reportHit(ball, ballCollider);
+  }
+
+  /**
+   * React to a ball touching the obstacle; plain obstacles only bounce it
+   */
+  protected handleBallContact(_ball: RAPIER.RigidBody) {}
+
+  private reportHit(ball: RAPIER.RigidBody, ballCollider: RAPIER.Collider) {
+    const cooldownDuration = this.config.particles.cooldownDuration ?? 0.25;
+    const lastHitTime = this.lastHitTime.get(ball.handle);
+    if (lastHitTime !== undefined && this.time - lastHitTime < cooldownDuration) return;
+    this.lastHitTime.set(ball.handle, this.time);
+
+    // Report the hit where the two touch, falling back to the ball center
+    let point: { x: number; y: number } = ball.translation();
+    this.world.contactPair(this.collider, ballCollider, manifold => {
+      if (manifold.numSolverContacts() > 0) {
+        point = manifold.solverContactPoint(0) ?? point;
+      }
+    });
+
+    const velocity = ball.linvel();
+    const speed = Math.sqrt(velocity.x * velocity.x + velocity.y * velocity.y);
+
+    this.events.emit('hit', {
+      x: point.x,
+      y: point.y,
+      velocity,
+      intensity: Math.min(1.0, speed / 5.0),
+      ballColor: (ball.userData as any)?.color,
+      ballHandle: ball.handle,
+      obstacleIndex: this.index
+    });
+  }
+
+  /**
+   * Clean up tracking for a ball that has been removed from the world
+   */
+  cleanupBall(ballHandle: number) {
+    this.lastHitTime.delete(ballHandle);
+  }
+}
@@ -0,0 +1,28 @@
+import type RAPIER from "@dimforge/rapier2d-deterministic";
+import { Obstacle } from "./Obstacle";
+import type { ObstacleConfig, ObstacleState } from "./interfaces";
+
+type PaddleConfig = Extract<ObstacleConfig, { type: 'paddle' }>;
+
+/** Bar spinning around its center at a constant speed */
+export class Paddle extends Obstacle<PaddleConfig> {
+  constructor(world: RAPIER.World, R: typeof RAPIER, config: PaddleConfig, index: number, state?: ObstacleState) {
+    super(world, R, config, index);
+    this.init(state);
+  }
+
+  protected createPhysics() {
+    this.body = this.world.createRigidBody(
+      this.R.RigidBodyDesc.kinematicPositionBased()
+        .setTranslation(this.config.x, this.config.y)
+        .setRotation(this.config.angle)
+    );
+    this.attachCollider(this.R.ColliderDesc.cuboid(this.config.length / 2, this.config.thickness / 2));
+  }
+
+  step(fixedStep: number) {
+    super.step(fixedStep);
+    // Kinematic bodies carry their motion into contacts, so paddles bat balls along
+    this.body.setNextKinematicRotation(this.config.angle + this.config.spinSpeed * this.time);
+  }
+}
@@ -0,0 +1,21 @@
+import type RAPIER from "@dimforge/rapier2d-deterministic";
+import { Obstacle } from "./Obstacle";
+import type { ObstacleConfig, ObstacleState } from "./interfaces";
+
+type PegConfig = Extract<ObstacleConfig, { type: 'peg' }>;
+
+/** Fixed round post balls bounce off */
+export class Peg extends Obstacle<PegConfig> {
+  constructor(world: RAPIER.World, R: typeof RAPIER, config: PegConfig, index: number, state?: ObstacleState) {
+    super(world, R, config, index);
+    this.init(state);
+  }
+
+  protected createPhysics() {
+    this.body = this.world.createRigidBody(
+      this.R.RigidBodyDesc.fixed()
+        .setTranslation(this.config.x, this.config.y)
+    );
+    this.attachCollider(this.R.ColliderDesc.ball(this.config.radius));
+  }
+}
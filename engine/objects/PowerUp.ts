@@ -0,0 +1,85 @@
+import type RAPIER from "@dimforge/rapier2d-deterministic";
+import { Prefab } from "./Prefab";
+import type { PowerUpKind, PowerUpState } from "./interfaces";
+import { EventEmitter } from "../events";
+
+export interface PowerUpEvents {
+  /** A ball touched the power-up; fires once */
+  collect: { powerUp: PowerUp; body: RAPIER.RigidBody };
+}
+
+/**
+ * Collectible resting inside the arena: a fixed sensor that reports the
+ * first ball to touch it. The simulation applies the effect and removes it.
+ */
+export class PowerUp extends Prefab {
+  readonly events = new EventEmitter<PowerUpEvents>();
+  private sensor!: RAPIER.Collider;
+  /** Seconds since the power-up appeared */
+  private age = 0;
+  private collected = false;
+
+  constructor(
+    world: RAPIER.World,
+    R: typeof RAPIER,
+    readonly kind: PowerUpKind,
+    readonly radius: number,
+    private x: number,
+    private y: number,
+    state?: PowerUpState
+  ) {
+    super(world, R);
+    this.init(state);
+  }
+
+  saveState(): PowerUpState {
+    return {
+      ...super.saveState(),
+      sensor: this.sensor.handle,
+      age: this.age,
+      collected: this.collected
+    };
+  }
+
+  protected restoreState(state: PowerUpState) {
+    super.restoreState(state);
+    this.sensor = this.world.getCollider(state.sensor);
+    this.age = state.age;
+    this.collected = state.collected;
+  }
+
+  protected createPhysics() {
+    this.body = this.world.createRigidBody(
+      this.R.RigidBodyDesc.fixed()
+        .setTranslation(this.x, this.y)
+    );
+
+    this.sensor = this.world.createCollider(
+      this.R.ColliderDesc.ball(this.radius)
+        .setSensor(true)
+        .setActiveEvents(this.R.ActiveEvents.COLLISION_EVENTS),
+      this.body
+    );
+  }
+
+  step(fixedStep: number) {
+    this.age += fixedStep;
+  }
+
+  getAge(): number {
+    return this.age;
+  }
+
+  processCollisionEvent(h1: number, h2: number, started: boolean) {
+    if (!started || this.collected) return;
+    if (h1 !== this.sensor.handle && h2 !== this.sensor.handle) return;
+
+    const other = this.world.getCollider(h1 === this.sensor.handle ? h2 : h1);
+    const ball = other?.parent();
+    // Only dynamic bodies (balls) can pick it up
+    if (!ball || !ball.isDynamic()) return;
+
+    this.collected = true;
+    this.events.emit('collect', { powerUp: this, body: ball });
+  }
+}
@@ -1,10 +1,13 @@
-import * as PIXI from "pixi.js";
 import type RAPIER from "@dimforge/rapier2d-deterministic";
-import { m2p } from "../scale";
+import type { PrefabState } from "./interfaces";
 
+/**
+ * Base class for simulated objects. A prefab owns only its Rapier body and
+ * colliders; graphics live in a matching view under `engine/views` so the
+ * simulation can run without PixiJS or the DOM.
+ */
 export abstract class Prefab {
   body!: RAPIER.RigidBody;
-  graphic!: PIXI.Container;
 
   constructor(
     protected world: RAPIER.World,
@@ -12,16 +15,28 @@ export abstract class Prefab {
   ) {}
 
   protected abstract createPhysics(): void;
-  protected abstract createGraphics(): void;
 
-  init() {
-    this.createPhysics();
-    this.createGraphics();
+  /**
+   * Create the physics objects, or adopt existing ones from a world restored
+   * with `World.restoreSnapshot` when a saved state is given
+   */
+  init(state?: PrefabState) {
+    if (state) {
+      this.restoreState(state);
+    } else {
+      this.createPhysics();
+    }
   }
 
-  updateFromPhysics() {
-    const p = this.body.translation();
-    this.graphic.position.set(m2p(p.x), m2p(p.y));
-    this.graphic.rotation = this.body.rotation();
+  /**
+   * Capture the handles and bookkeeping needed to rebuild this prefab from a
+   * world snapshot
+   */
+  saveState(): PrefabState {
+    return { body: this.body.handle };
   }
-}
\ No newline at end of file
+
+  protected restoreState(state: PrefabState) {
+    this.body = this.world.getRigidBody(state.body);
+  }
+}
@@ -1,47 +1,103 @@
-import * as PIXI from "pixi.js";
 import type RAPIER from "@dimforge/rapier2d-deterministic";
-import { GlowFilter } from 'pixi-filters';
 import { Prefab } from "./Prefab";
-import { m2p } from "../scale";
-import type { RingConfig } from "./interfaces";
-import type { ParticleManager } from "../ParticleManager";
-
+import { createOutline, type ArenaOutline, type OutlinePoint } from "./ArenaOutline";
+import { EventEmitter } from "../events";
+import type { RingConfig, RingHit, RingState } from "./interfaces";
+
+export interface RingEvents {
+  /** A ball crossed the escape sensor; fires once per ball */
+  escape: { body: RAPIER.RigidBody; ring: Ring };
+  /** A ball struck the wall (rate limited per ball by `particles.cooldownDuration`) */
+  hit: RingHit;
+  /** A ball touched the wall; every contact, unlike `hit` */
+  contact: { ballHandle: number };
+}
+
+/**
+ * Spinning arena wall with gaps. The wall follows `config.shape` (a circle by
+ * default), so the same prefab also builds polygon, star and path cages.
+ */
 export class Ring extends Prefab {
+  /** Path the wall, escape sensors and gap corners are placed along */
+  readonly outline: ArenaOutline;
   /** Array of escape sensor segment colliders forming a closed ring outside the main ring */
   private escapeSensorColliders: RAPIER.Collider[] = [];
   /** Array of corner capsule colliders for rounded gap edges */
   private cornerColliders: RAPIER.Collider[] = [];
   /** Array of physical ring segment colliders */
   private ringColliders: RAPIER.Collider[] = [];
+  /** Open state of each gap as of the last step */
+  private gapOpen: boolean[] = [];
+  /** Factor all gaps are widened by, e.g. by a power-up */
+  private gapScale = 1;
+  /** Factor the ring's own spin is multiplied by */
+  private spinScale = 1;
   /** Map for O(1) ring collider lookup by handle */
   private ringColliderMap = new Map<number, RAPIER.Collider>();
-  private eventQueue!: RAPIER.EventQueue;
-  private onBallRingEscape?: (escapedBall: RAPIER.RigidBody) => void;
+  readonly events = new EventEmitter<RingEvents>();
   /** Track balls that have already triggered ring escape to prevent duplicates */
   private escapedBallHandles = new Set<number>();
   /** Track last particle emission time per ball (ballHandle -> timestamp) */
   private lastParticleEmissionTime = new Map<number, number>();
-  /** Reference to the independent particle manager */
-  private particleManager?: ParticleManager;
   /** Current physics time for collision tracking */
   private currentPhysicsTime: number = 0;
 
   constructor(
     world: RAPIER.World,
     R: typeof RAPIER,
-    private config: RingConfig
+    readonly config: RingConfig,
+    /** Position among concentric rings, 0 being the innermost */
+    readonly index: number = 0,
+    state?: RingState
   ) {
     super(world, R);
-    this.eventQueue = new R.EventQueue(true);
-    this.init();
+    this.outline = createOutline(config);
+    this.init(state);
+  }
+
+  saveState(): RingState {
+    return {
+      ...super.saveState(),
+      ringColliders: this.ringColliders.map(c => c.handle),
+      cornerColliders: this.cornerColliders.map(c => c.handle),
+      escapeSensorColliders: this.escapeSensorColliders.map(c => c.handle),
+      escapedBalls: Array.from(this.escapedBallHandles),
+      particleEmissions: Array.from(this.lastParticleEmissionTime.entries()),
+      physicsTime: this.currentPhysicsTime
+    };
   }
 
-  setRingEscapeHandler(handler: (escapedBall: RAPIER.RigidBody) => void) {
-    this.onBallRingEscape = handler;
+  protected restoreState(state: RingState) {
+    super.restoreState(state);
+    this.ringColliders = state.ringColliders.map(h => this.world.getCollider(h));
+    this.cornerColliders = state.cornerColliders.map(h => this.world.getCollider(h));
+    this.escapeSensorColliders = state.escapeSensorColliders.map(h => this.world.getCollider(h));
+    [...this.ringColliders, ...this.cornerColliders].forEach(c => this.ringColliderMap.set(c.handle, c));
+    this.escapedBallHandles = new Set(state.escapedBalls);
+    this.lastParticleEmissionTime = new Map(state.particleEmissions);
+    this.currentPhysicsTime = state.physicsTime;
+    this.gapOpen = this.config.gaps.map((_, i) => this.isGapOpen(i));
   }
 
-  setParticleManager(particleManager: ParticleManager) {
-    this.particleManager = particleManager;
+  /**
+   * Whether gap `index` is open at the ring's current physics time
+   */
+  isGapOpen(index: number): boolean {
+    const timing = this.config.gaps[index].timing;
+    if (!timing) return true;
+
+    const t = this.currentPhysicsTime + (timing.offset ?? 0);
+    const phase = ((t % timing.period) + timing.period) % timing.period;
+    return phase < timing.openDuration;
+  }
+
+  /**
+   * Index of the gap containing `angle`, or -1 if the angle hits the wall
+   */
+  private findGap(angle: number, scale: number = 1): number {
+    return this.config.gaps.findIndex(gap =>
+      this.isAngleInGap(angle, gap.centerAngle - gap.width * scale / 2, gap.centerAngle + gap.width * scale / 2)
+    );
   }
 
   /**
@@ -63,6 +119,13 @@ export class Ring extends Prefab {
     }
   }
 
+  /**
+   * Point on the wall (in ring-local coordinates) in the direction `angle` from the center
+   */
+  wallPointAtAngle(angle: number): OutlinePoint {
+    return this.outline.pointAt(this.outline.lengthAtAngle(angle));
+  }
+
   /**
    * Create rounded corner capsules at the gap edges
    */
@@ -78,39 +141,22 @@ export class Ring extends Prefab {
     // Capsule half-height spans from inner edge to outer edge of ring
     const capsuleHalfHeight = this.config.thickness / 4;
 
-    // Create capsule at gap start
-    const startCornerCollider = this.world.createCollider(
-      this.R.ColliderDesc.capsule(capsuleHalfHeight, cornerRadius)
-        .setTranslation(
-          this.config.radius * Math.cos(gapStartAngle),
-          this.config.radius * Math.sin(gapStartAngle)
-        )
-        .setRotation(gapStartAngle) // Tangent to the ring
-        .setFriction(this.config.friction)
-        .setRestitution(this.config.restitution)
-        .setActiveEvents(this.R.ActiveEvents.COLLISION_EVENTS)
-        .setEnabled(true),
-      this.body
-    );
-    this.cornerColliders.push(startCornerCollider);
-    this.ringColliderMap.set(startCornerCollider.handle, startCornerCollider);
-
-    // Create capsule at gap end
-    const endCornerCollider = this.world.createCollider(
-      this.R.ColliderDesc.capsule(capsuleHalfHeight, cornerRadius)
-        .setTranslation(
-          this.config.radius * Math.cos(gapEndAngle),
-          this.config.radius * Math.sin(gapEndAngle)
-        )
-        .setRotation(gapEndAngle) // Tangent to the ring
-        .setFriction(this.config.friction)
-        .setRestitution(this.config.restitution)
-        .setActiveEvents(this.R.ActiveEvents.COLLISION_EVENTS)
-        .setEnabled(true),
-      this.body
-    );
-    this.cornerColliders.push(endCornerCollider);
-    this.ringColliderMap.set(endCornerCollider.handle, endCornerCollider);
+    // Create a capsule at the gap start and one at the gap end
+    [gapStartAngle, gapEndAngle].forEach(angle => {
+      const corner = this.wallPointAtAngle(angle);
+      const cornerCollider = this.world.createCollider(
+        this.R.ColliderDesc.capsule(capsuleHalfHeight, cornerRadius)
+          .setTranslation(corner.x, corner.y)
+          .setRotation(corner.tangent - Math.PI / 2) // Capsule axis along the wall
+          .setFriction(this.config.friction)
+          .setRestitution(this.config.restitution)
+          .setActiveEvents(this.R.ActiveEvents.COLLISION_EVENTS)
+          .setEnabled(true),
+        this.body
+      );
+      this.cornerColliders.push(cornerCollider);
+      this.ringColliderMap.set(cornerCollider.handle, cornerCollider);
+    });
   }
 
   protected createPhysics() {
@@ -121,28 +167,26 @@ export class Ring extends Prefab {
         .setCcdEnabled(true) // CCD enabled by default for all kinematic objects
     );
 
-    // Calculate gap boundaries: gap is centered at gapCenterAngle
-    const gapStartAngle = this.config.gapCenterAngle - this.config.gapAngle / 2;
-    const gapEndAngle = this.config.gapCenterAngle + this.config.gapAngle / 2;
-
-    // Create segments distributed around full circle, skipping gap area
-    const totalAngleStep = (2 * Math.PI) / this.config.segments;
+    // Create segments distributed evenly along the outline, skipping gap areas
+    const segmentLength = this.outline.length / this.config.segments;
+    // Segments are at least square so short ones still overlap around curves
+    const halfLength = Math.max(segmentLength / 2, this.config.thickness / 2);
 
     for (let i = 0; i < this.config.segments; ++i) {
-      const midAngle = totalAngleStep * (i + 0.5);
+      const mid = this.outline.pointAt(segmentLength * (i + 0.5));
+      const midAngle = Math.atan2(mid.y, mid.x);
 
-      // Skip segments that fall within the gap
-      if (this.isAngleInGap(midAngle, gapStartAngle, gapEndAngle)) {
+      // Skip segments that fall within an always-open gap; timed gaps keep
+      // theirs as a gate that is switched off while the gap is open
+      const gapIndex = this.findGap(midAngle);
+      if (gapIndex !== -1 && !this.config.gaps[gapIndex].timing) {
         continue;
       }
 
       const ringCollider = this.world.createCollider(
-        this.R.ColliderDesc.cuboid(this.config.thickness / 2, this.config.thickness / 2)
-          .setTranslation(
-            this.config.radius * Math.cos(midAngle),
-            this.config.radius * Math.sin(midAngle)
-          )
-          .setRotation(midAngle)
+        this.R.ColliderDesc.cuboid(halfLength, this.config.thickness / 2)
+          .setTranslation(mid.x, mid.y)
+          .setRotation(mid.tangent)
           .setFriction(this.config.friction)
           .setRestitution(this.config.restitution)
           .setActiveEvents(this.R.ActiveEvents.COLLISION_EVENTS)
@@ -153,20 +197,20 @@ export class Ring extends Prefab {
       this.ringColliderMap.set(ringCollider.handle, ringCollider);
     }
 
-    // Create a closed ring of escape sensor segments (no gap)
-    const escapeSensorRadius = this.config.radius + this.config.thickness + this.config.escapeSensorOffset + this.config.escapeSensorThickness / 2;
-    const escapeSensorAngleStep = (2 * Math.PI) / this.config.segments;
+    // Create a closed ring of escape sensor segments (no gap) just outside the wall
+    const escapeSensorDistance = this.config.thickness + this.config.escapeSensorOffset + this.config.escapeSensorThickness / 2;
+    const sensorHalfLength = Math.max(segmentLength / 2, this.config.escapeSensorThickness / 2);
 
     for (let i = 0; i < this.config.segments; ++i) {
-      const midAngle = escapeSensorAngleStep * (i + 0.5);
+      const mid = this.outline.pointAt(segmentLength * (i + 0.5));
+      // Outward normal of the wall at this point
+      const nx = Math.sin(mid.tangent);
+      const ny = -Math.cos(mid.tangent);
 
       const escapeSensorCollider = this.world.createCollider(
-        this.R.ColliderDesc.cuboid(this.config.escapeSensorThickness / 2, this.config.escapeSensorThickness / 2)
-          .setTranslation(
-            escapeSensorRadius * Math.cos(midAngle),
-            escapeSensorRadius * Math.sin(midAngle)
-          )
-          .setRotation(midAngle)
+        this.R.ColliderDesc.cuboid(sensorHalfLength, this.config.escapeSensorThickness / 2)
+          .setTranslation(mid.x + nx * escapeSensorDistance, mid.y + ny * escapeSensorDistance)
+          .setRotation(mid.tangent)
           .setSensor(true)
           .setActiveEvents(this.R.ActiveEvents.COLLISION_EVENTS)
           .setEnabled(true),
@@ -175,51 +219,22 @@ export class Ring extends Prefab {
       this.escapeSensorColliders.push(escapeSensorCollider);
     }
 
-    // Create rounded corner capsules at gap edges
-    this.createCornerCapsules(gapStartAngle, gapEndAngle);
-
-    // Store spin speed in userData
-    this.body.userData = { spinSpeed: this.config.spinSpeed };
-  }
-
-  protected createGraphics() {
-    const g = new PIXI.Graphics();
-
-    // Compute gap angles (in radians)
-    const gapStartAngle = this.config.gapCenterAngle - this.config.gapAngle / 2;
-    const gapEndAngle   = this.config.gapCenterAngle + this.config.gapAngle / 2;
-
-    // Configure stroke so that its centre lies exactly on the physics radius
-    g.setStrokeStyle({
-      width: m2p(this.config.thickness),
-      color: this.config.color,
-      cap:   "round",
-      join:  "round",
-      alignment: 0.5
+    // Create rounded corner capsules at gap edges (a timed gap's only exist while it is open)
+    this.config.gaps.forEach(gap => {
+      this.createCornerCapsules(gap.centerAngle - gap.width / 2, gap.centerAngle + gap.width / 2);
     });
 
-    const radiusPx = m2p(this.config.radius);
-
-    // Draw the ring as a single arc that wraps around the gap (clockwise)
-    // Example: if gap is from 4.5→4.9 rad, we draw from 4.9 → (4.5+2π) rad.
-    g.arc(0, 0, radiusPx, gapEndAngle, gapStartAngle + 2 * Math.PI);
-    g.stroke();
-
-    // Apply glow effect if enabled
-    if (this.config.glow.enabled) {
-      const glowFilter = new GlowFilter({
-        distance: this.config.glow.distance,
-        outerStrength: this.config.glow.outerStrength,
-        color: this.config.glow.color,
-        quality: this.config.glow.quality
-      });
-      g.filters = [glowFilter];
-    }
+    this.gapOpen = this.config.gaps.map((_, i) => this.isGapOpen(i));
+    this.updateWall();
 
-    this.graphic = g;
+    // Store spin speed in userData
+    this.body.userData = { spinSpeed: this.config.spinSpeed };
   }
 
-    step(fixedStep: number) {
+  /**
+   * @param controlRotation Extra rotation (radians) from player input this step
+   */
+  step(fixedStep: number, controlRotation: number = 0) {
     // Update physics time for collision tracking
     this.currentPhysicsTime += fixedStep;
 
@@ -229,9 +244,68 @@ export class Ring extends Prefab {
       this.cleanupOldEmissionTimes();
     }
 
+    this.updateGates();
+
     // Spin the ring
     const currentRot = this.body.rotation();
-    this.body.setNextKinematicRotation(currentRot + this.config.spinSpeed * fixedStep);
+    this.body.setNextKinematicRotation(currentRot + this.config.spinSpeed * this.spinScale * fixedStep + controlRotation);
+  }
+
+  /**
+   * Open or close timed gaps whose state changed
+   */
+  private updateGates() {
+    let changed = false;
+    this.gapOpen.forEach((wasOpen, i) => {
+      const open = this.isGapOpen(i);
+      if (open === wasOpen) return;
+
+      this.gapOpen[i] = open;
+      changed = true;
+    });
+
+    if (changed) {
+      this.updateWall();
+    }
+  }
+
+  /**
+   * Switch wall colliders on or off to match the open gaps and the gap scale
+   */
+  private updateWall() {
+    const rotation = this.body.rotation();
+
+    // Wall segments inside an open (possibly widened) gap let balls through
+    this.ringColliders.forEach(collider => {
+      const p = collider.translation();
+      const gapIndex = this.findGap(Math.atan2(p.y, p.x) - rotation, this.gapScale);
+      collider.setEnabled(gapIndex === -1 || !this.gapOpen[gapIndex]);
+    });
+
+    // Corner capsules round off the edges of open gaps at their normal width (two per gap)
+    this.cornerColliders.forEach((collider, i) => {
+      collider.setEnabled(this.gapOpen[Math.floor(i / 2)] && this.gapScale === 1);
+    });
+  }
+
+  /**
+   * Widen every gap by `scale` (1 restores the configured widths)
+   */
+  setGapScale(scale: number) {
+    if (scale === this.gapScale) return;
+    this.gapScale = scale;
+    this.updateWall();
+  }
+
+  getGapScale(): number {
+    return this.gapScale;
+  }
+
+  /**
+   * Multiply the ring's own spin (player control is unaffected)
+   */
+  setSpinScale(scale: number) {
+    this.spinScale = scale;
   }
 
   processCollisionEvent(h1: number, h2: number, started: boolean) {
@@ -268,15 +342,15 @@ export class Ring extends Prefab {
 
     this.escapedBallHandles.add(ballHandle);
 
-    if (this.onBallRingEscape) {
-      this.onBallRingEscape(escapedBall);
-    }
+    this.events.emit('escape', { body: escapedBall, ring: this });
   }
 
   private handleRingCollision(ballCollider: RAPIER.Collider, ringCollider: RAPIER.Collider) {
     const collidedBall = ballCollider.parent();
     if (collidedBall === null) return;
 
+    this.events.emit('contact', { ballHandle: collidedBall.handle });
+
     // Get cooldown duration from config (default 0.25 seconds - much shorter than before)
     const cooldownDuration = this.config.particles?.cooldownDuration ?? 0.25;
 
@@ -301,30 +375,28 @@ export class Ring extends Prefab {
     // Calculate angle from ring center to ball collision point
     const collisionAngle = Math.atan2(ballPos.y - ringBodyPos.y, ballPos.x - ringBodyPos.x);
 
-    // Emit particles at the center of the ring wall (ring radius distance from center)
-    const actualCollisionX = ringBodyPos.x + this.config.radius * Math.cos(collisionAngle);
-    const actualCollisionY = ringBodyPos.y + this.config.radius * Math.sin(collisionAngle);
-
-    // Emit particles at the center of the ring wall
-    if (this.config.particles.enabled && this.particleManager) {
-      // Get ball velocity for collision information
-      const ballVelocity = collidedBall.linvel();
-      const velocityMagnitude = Math.sqrt(ballVelocity.x * ballVelocity.x + ballVelocity.y * ballVelocity.y);
-      const intensity = Math.min(1.0, velocityMagnitude / 5.0); // Normalize to 0-1 based on velocity
-
-      // Emit dust-fall effect
-      const ballColor = this.config.particles.color || (ballCollider.parent()?.userData as any)?.color;
-      this.particleManager.emitParticlesAt('dust-fall', actualCollisionX, actualCollisionY, {
-        angle: collisionAngle,
-        velocity: ballVelocity,
-        intensity: intensity * (this.config.particles.dustIntensity ?? 1.0),
-        ballColor: ballColor
-      });
-    }
-  }
-
-  getEventQueue(): RAPIER.EventQueue {
-    return this.eventQueue;
+    // Emit particles at the center of the ring wall, found on the outline in the ring's own frame
+    const rotation = this.body.rotation();
+    const wallPoint = this.wallPointAtAngle(collisionAngle - rotation);
+    const actualCollisionX = ringBodyPos.x + wallPoint.x * Math.cos(rotation) - wallPoint.y * Math.sin(rotation);
+    const actualCollisionY = ringBodyPos.y + wallPoint.x * Math.sin(rotation) + wallPoint.y * Math.cos(rotation);
+
+    // Report the hit at the center of the ring wall
+    // Get ball velocity for collision information
+    const ballVelocity = collidedBall.linvel();
+    const velocityMagnitude = Math.sqrt(ballVelocity.x * ballVelocity.x + ballVelocity.y * ballVelocity.y);
+    const intensity = Math.min(1.0, velocityMagnitude / 5.0); // Normalize to 0-1 based on velocity
+
+    this.events.emit('hit', {
+      x: actualCollisionX,
+      y: actualCollisionY,
+      angle: collisionAngle,
+      velocity: ballVelocity,
+      intensity: intensity,
+      ballColor: (collidedBall.userData as any)?.color,
+      ballHandle: collidedBall.handle,
+      ringIndex: this.index
+    });
   }
 
     /**
@@ -346,6 +418,17 @@ export class Ring extends Prefab {
     });
   }
 
+  /**
+   * Treat a ball as having cleared this ring already, e.g. one spawned outside it
+   */
+  markEscaped(ballHandle: number) {
+    this.escapedBallHandles.add(ballHandle);
+  }
+
+  hasEscaped(ballHandle: number): boolean {
+    return this.escapedBallHandles.has(ballHandle);
+  }
+
   /**
    * Clean up tracking for a ball that has been removed from the world
    */
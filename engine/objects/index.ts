@@ -1,5 +1,12 @@
-export { Ball } from "./Ball";
-export { Ring } from "./Ring";
-export { KillBoundary } from "./KillBoundary";
+export { Ball, BALL_GROUP, GHOST_BALL_GROUP, interactionGroups } from "./Ball";
+export { Ring, type RingEvents } from "./Ring";
+export { KillBoundary, type KillBoundaryEvents } from "./KillBoundary";
+export { PowerUp, type PowerUpEvents } from "./PowerUp";
+export { Obstacle, type ObstacleEvents } from "./Obstacle";
+export { Peg } from "./Peg";
+export { Bumper } from "./Bumper";
+export { Paddle } from "./Paddle";
+export { MovingWall } from "./MovingWall";
 export { Prefab } from "./Prefab";
-export type { BallConfig, RingConfig, BallSpawnConfig, KillBoundaryConfig } from "./interfaces";
\ No newline at end of file
+export { createOutline, parsePath, type ArenaOutline, type OutlinePoint } from "./ArenaOutline";
+export type { BallConfig, BallTypeConfig, BallBehaviorConfig, BallVisualConfig, RingConfig, RingGapConfig, RingGapTiming, ArenaShapeConfig, BallSpawnConfig, BallColorOrder, KillBoundaryConfig, WorldBoundsConfig, RingControlConfig, AudioConfig, CameraConfig, ParticleEffectConfig, ParticleKeyframe, PoolingConfig, BallRenderingConfig, ScoringConfig, ObjectiveConfig, PowerUpConfig, PowerUpKind, ObstacleConfig, ObstacleMaterialConfig, ObstacleType, ObstacleDefaults, ObstacleHit, BallTrailConfig, RingHit, PrefabState, RingState, KillBoundaryState, PowerUpState, ObstacleState } from "./interfaces";
\ No newline at end of file
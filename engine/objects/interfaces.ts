@@ -1,8 +1,15 @@
 export interface BallConfig {
+  /** Key of the ball type in `GameConfig.ballTypes` this ball was built from */
+  type: string;
   radius: number;
+  density: number;
   restitution: number;
   friction: number;
   color: number;
+  /** Rapier interaction groups; plain balls collide with everything */
+  collisionGroups?: number;
+  behavior?: BallBehaviorConfig;
+  visual?: BallVisualConfig;
   trail: BallTrailConfig;
   /** Glow effect configuration */
   glow: {
@@ -14,11 +21,65 @@ export interface BallConfig {
   };
 }
 
+/** Type-specific behaviour on top of plain bouncing */
+export type BallBehaviorConfig =
+  /** Burst into `count` balls of `childType` whenever the ball clears a ring */
+  | { type: 'split'; count: number; childType: string; speed: number; spread: number }
+  /** Pull other balls within `range` meters towards the ball */
+  | { type: 'magnetic'; strength: number; range: number };
+
+/** Extra drawing on top of the filled ball */
+export interface BallVisualConfig {
+  alpha?: number;
+  /** Stroke around the ball; width in pixels */
+  outline?: { color: number; width: number };
+  /** Dot in the middle; radius as a fraction of the ball radius */
+  core?: { color: number; radius: number };
+  /** Soft disc around the ball; radius in meters */
+  halo?: { color: number; alpha: number; radius: number };
+}
+
+/**
+ * A named ball variant. Anything not set falls back to `GameConfig.ball`;
+ * without a color the ball takes the next color from the palette.
+ */
+export type BallTypeConfig = Partial<Pick<BallConfig,
+  'radius' | 'density' | 'restitution' | 'friction' | 'color' | 'collisionGroups' | 'behavior' | 'visual'
+>>;
+
+/** An opening in a ring wall */
+export interface RingGapConfig {
+  centerAngle: number; // Angle in radians where the gap center is positioned
+  width: number; // Angular width in radians
+  /** Open and close the gap over time; a gap without timing is always open */
+  timing?: RingGapTiming;
+}
+
+export interface RingGapTiming {
+  period: number; // Seconds for one open/close cycle
+  openDuration: number; // Seconds the gap stays open in each cycle
+  offset?: number; // Seconds to shift the cycle by, e.g. to alternate gaps
+}
+
+/**
+ * Outline of a ring's wall. Polygons and stars use the ring radius as their
+ * outer radius; rounded rectangles and paths bring their own size in meters.
+ * Rotations are in radians.
+ */
+export type ArenaShapeConfig =
+  | { type: 'circle' }
+  | { type: 'polygon'; sides: number; rotation?: number }
+  | { type: 'star'; points: number; innerRadius: number; rotation?: number }
+  | { type: 'roundedRect'; width: number; height: number; cornerRadius: number }
+  /** SVG-like path (M, L, H, V, Q, C, Z) centered on the ring */
+  | { type: 'path'; path: string };
+
 export interface RingConfig {
   radius: number;
+  /** Wall outline; a circle of `radius` when not set */
+  shape?: ArenaShapeConfig;
   thickness: number;
-  gapAngle: number;
-  gapCenterAngle: number; // Angle in radians where gap center should be positioned
+  gaps: RingGapConfig[];
   segments: number;
   spinSpeed: number;
   restitution: number;
@@ -40,34 +101,323 @@ export interface RingConfig {
   /** Particle effect configuration for ring collisions */
   particles: {
     enabled: boolean;
+    /** Name of the effect in `particleEffects` to play; 'dust-fall' when not set */
+    effect?: string;
     color?: number; // Optional - if set, use this color; if not set, use ball color
     dustIntensity?: number; // Dust particle count multiplier (0.5-2.0)
     cooldownDuration?: number; // Time in seconds between particle emissions per ball (default: 0.25)
   };
 }
 
+/** Surface and feedback shared by every obstacle */
+export interface ObstacleMaterialConfig {
+  restitution: number;
+  friction: number;
+  color: number;
+  /** Particle effect configuration for ball hits, as for rings */
+  particles: {
+    enabled: boolean;
+    effect?: string;
+    color?: number; // Optional - if set, use this color; if not set, use ball color
+    dustIntensity?: number;
+    cooldownDuration?: number; // Time in seconds between hits reported per ball (default: 0.25)
+  };
+}
+
+/**
+ * Static or moving obstacle inside the arena. Positions are in meters from
+ * the arena center, angles in radians and spin speeds in radians per second.
+ */
+export type ObstacleConfig = ObstacleMaterialConfig & (
+  | { type: 'peg'; x: number; y: number; radius: number }
+  /** Kicks balls away from its center, adding `kick` m/s on every hit */
+  | { type: 'bumper'; x: number; y: number; radius: number; kick: number }
+  /** Bar spinning around its center */
+  | { type: 'paddle'; x: number; y: number; length: number; thickness: number; angle: number; spinSpeed: number }
+  /**
+   * Bar travelling along `path` at `speed` m/s; a looping path returns to its
+   * first point, otherwise the wall goes back and forth
+   */
+  | { type: 'movingWall'; path: { x: number; y: number }[]; speed: number; loop: boolean; length: number; thickness: number; angle: number }
+);
+
+export type ObstacleType = ObstacleConfig['type'];
+
+/** Material and size of each obstacle type, for level obstacles that leave them out */
+export type ObstacleDefaults = {
+  [T in ObstacleType]: Omit<Extract<ObstacleConfig, { type: T }>, 'type' | 'x' | 'y' | 'path' | 'angle' | 'loop'>;
+};
+
+/** A ball striking an obstacle, reported in physics coordinates */
+export interface ObstacleHit {
+  x: number;
+  y: number;
+  velocity: { x: number; y: number }; // Ball velocity at collision
+  intensity: number; // Collision intensity (0-1)
+  ballColor?: number;
+  ballHandle: number;
+  obstacleIndex: number; // Position in `GameConfig.obstacles`
+}
+
+/** A ball striking the ring wall, reported in physics coordinates */
+export interface RingHit {
+  x: number;
+  y: number;
+  angle: number; // Collision angle in radians, measured from the ring center
+  velocity: { x: number; y: number }; // Ball velocity at collision
+  intensity: number; // Collision intensity (0-1)
+  ballColor?: number;
+  ballHandle: number; // Rigid body handle of the ball
+  ringIndex: number; // Which ring was hit, counted from the innermost
+}
+
 export interface BallSpawnConfig {
   position: { x: number; y: number };
   velocity: { magnitude: number; angle: number } | { x: number; y: number };
   angleRange?: { min: number; max: number }; // For random direction
+  /** Ball types to draw from by relative weight; plain balls when not set */
+  types?: { type: string; weight: number }[];
+}
+
+/** Player control over the ring's rotation */
+export interface RingControlConfig {
+  enabled: boolean;
+  /** Ring radians turned per radian dragged around the ring center */
+  dragSensitivity: number;
+  /** Extra spin (rad/s) while an arrow key is held */
+  keyboardSpeed: number;
+  /** How fast (rad/s²) keyboard spin ramps up and down */
+  keyboardAcceleration: number;
+  /** Fraction of control spin kept after one second without input (0 = stops instantly) */
+  inertia: number;
+}
+
+/** How spawned balls pick from the color palette */
+export type BallColorOrder = 'cycle' | 'random';
+
+/** Procedurally synthesized sound effects */
+export interface AudioConfig {
+  enabled: boolean;
+  /** Master volume (0-1) */
+  volume: number;
+  /** Most sounds playing at once; further sounds are dropped */
+  maxVoices: number;
+  /** Most impact sounds a single ball can have playing at once */
+  maxVoicesPerBall: number;
+  /** Ring hits below this intensity (0-1) are silent */
+  minImpactIntensity: number;
 }
 
+/** Value of a particle property at a point of its life (`time` from 0 to 1) */
+export interface ParticleKeyframe {
+  value: number;
+  time: number;
+}
+
+/**
+ * Named particle effect. Effects are plain data, so levels can add or
+ * override them; sizes and speeds are in meters so they look the same at
+ * every scale.
+ */
+export interface ParticleEffectConfig {
+  /** Shared texture each particle is drawn with */
+  shape: 'dot' | 'square' | 'streak';
+  /** Particle size in meters */
+  size: number;
+  /** Particles per burst at intensity 1 */
+  count: number;
+  /** Burst size multipliers at intensity 0 and 1 */
+  intensityScale?: { min: number; max: number };
+  /** Seconds each particle lives */
+  lifetime: { min: number; max: number };
+  alpha: ParticleKeyframe[];
+  scale: ParticleKeyframe[];
+  /** Speed (m/s) along the launch direction */
+  speed: ParticleKeyframe[];
+  /** Constant acceleration (m/s²), e.g. gravity */
+  acceleration?: { x: number; y: number };
+  /** Degrees of launch directions around the emit angle; 360 for all around */
+  spread: number;
+  /** Particles start within this many meters of the emit point */
+  spawnRadius?: number;
+  /** Colors particles pick from; the color passed when emitting (e.g. the ball's) when not set */
+  colors?: number[];
+  blendMode?: 'normal' | 'add';
+}
+
+/** How the renderer draws balls */
+export interface BallRenderingConfig {
+  /**
+   * 'graphics' gives every ball its own graphics, trail and glow; 'batched' draws
+   * all balls as sprites of one shared texture in a single draw call; 'auto'
+   * batches when `gameplay.maxBalls` is above `batchAbove`
+   */
+  mode: 'auto' | 'graphics' | 'batched';
+  batchAbove: number;
+  /** Bloom applied once to the whole ball layer in batched mode, in each ball's color */
+  glow: {
+    enabled: boolean;
+    bloomScale: number;
+    blur: number;
+    quality: number;
+  };
+}
+
+/** Reuse of objects that come and go often, to avoid allocation spikes */
+export interface PoolingConfig {
+  /** Most killed balls kept (disabled) in the world for reuse; 0 turns ball pooling off */
+  maxBalls: number;
+  /** Most ball views kept for reuse by the renderer */
+  maxBallViews: number;
+  /** Most particle emitters kept; the least recently used idle one is evicted beyond this */
+  maxEmitters: number;
+}
+
+/** View transform over the world: zoom, pan, following escapes and screen shake */
+export interface CameraConfig {
+  /** Zoom range relative to fitting the world bounds to the screen */
+  minZoom: number;
+  maxZoom: number;
+  /** How quickly (1/s) zoom and pan ease toward their targets */
+  smoothing: number;
+  /** Follow the ball that escaped last until it leaves the world */
+  followEscapes: boolean;
+  /** Zoom while following a ball */
+  followZoom: number;
+  shake: {
+    enabled: boolean;
+    /** Largest shake offset in meters, reached at full trauma */
+    maxOffset: number;
+    /** Trauma (0-1) lost per second */
+    decay: number;
+    /** Trauma added per unit of ring hit intensity */
+    ringHit: number;
+    /** Trauma added per unit of obstacle hit intensity */
+    obstacleHit: number;
+    /** Hits below this intensity (0-1) don't shake the screen */
+    minIntensity: number;
+  };
+}
+
+export type PowerUpKind = 'widenGap' | 'slowSpin' | 'extraBalls' | 'freezeTimer';
+
+/** Collectible power-ups that appear inside the innermost ring */
+export interface PowerUpConfig {
+  enabled: boolean;
+  /** Seconds between spawns */
+  interval: number;
+  /** Most uncollected power-ups in the arena at once */
+  maxActive: number;
+  /** Seconds an uncollected power-up stays before it vanishes */
+  lifetime: number;
+  radius: number;
+  /** Power-ups appear within this distance (meters) of the center */
+  spawnRadius: number;
+  /** Kinds to draw from by relative weight */
+  types: { kind: PowerUpKind; weight: number }[];
+  /** Widen every gap of every ring by `scale` */
+  widenGap: { duration: number; scale: number; color: number };
+  /** Multiply the rings' own spin by `scale` */
+  slowSpin: { duration: number; scale: number; color: number };
+  /** Spawn balls on top of the `maxBalls` limit */
+  extraBalls: { count: number; color: number };
+  /** Stop the round timer */
+  freezeTimer: { duration: number; color: number };
+}
+
+export interface ScoringConfig {
+  /** Points for each ball that clears the outermost ring */
+  escapePoints: number;
+  /** Seconds within which the next escape extends the combo */
+  comboWindow: number;
+  /** Multiplier added per chained escape after the first */
+  comboStep: number;
+  maxMultiplier: number;
+  /** Extra points for a ball escaping by its first bounce off the outermost ring */
+  firstBounceBonus: number;
+  /** Points per whole second left when the round is won */
+  timeBonusPerSecond: number;
+}
+
+/**
+ * Declarative win/lose rule. Goals complete once reached; `noKills` is a
+ * constraint that holds until broken, so combine it with goals using `all`.
+ */
+export type ObjectiveConfig =
+  /** Clear the outermost ring with `count` balls */
+  | { type: 'escape'; count: number }
+  /** Keep at least `minBalls` inside the outermost ring for `seconds` in total */
+  | { type: 'survive'; seconds: number; minBalls: number }
+  /** Clear the outermost ring with `count` balls of `color` */
+  | { type: 'escapeColor'; color: number; count: number }
+  /** Fails as soon as a ball is lost without escaping */
+  | { type: 'noKills' }
+  /** Escape `count` balls before the rings have been hit `maxHits` times */
+  | { type: 'escapeBeforeHits'; count: number; maxHits: number }
+  /** Complete when every objective is; failed when any is */
+  | { type: 'all'; objectives: ObjectiveConfig[] }
+  /** Complete when any objective is; failed when all are */
+  | { type: 'any'; objectives: ObjectiveConfig[] };
+
+/** Outline of the world around the arena center, in physics units */
+export type WorldBoundsConfig =
+  | { type: 'circle'; radius: number }
+  | { type: 'box'; width: number; height: number };
+
 export interface KillBoundaryConfig {
+  /** Balls crossing these bounds are destroyed; the camera fits them to the screen */
+  shape: WorldBoundsConfig;
   thickness: number;
-  offset: number; // Distance beyond screen edges (in physics units)
 }
 
 export interface BallTrailConfig {
   enabled: boolean;
-  maxLength: number;      // Number of trail segments
+  maxLength: number;      // Number of sampled trail points
   fadeAlpha: number;      // Alpha at trail end (0.0-1.0)
-  width: number;          // Trail width multiplier
+  width: number;          // Trail width as a multiple of the ball diameter
   color?: number;         // Override ball color (optional)
-  updateInterval: number; // Milliseconds between trail updates
+  /** Color the trail fades to at its tail; the head color when not set */
+  tailColor?: number;
+  blendMode?: 'normal' | 'add';
+  /** Physics steps between sampled points, so trails look the same at any frame rate */
+  sampleSteps: number;
 }
 
 export interface TrailSegment {
   x: number;
   y: number;
-  timestamp: number;
-}
\ No newline at end of file
+  /** Simulation step the point was sampled at */
+  step: number;
+}
+
+/** Handles of a prefab's Rapier objects inside a world snapshot */
+export interface PrefabState {
+  body: number;
+}
+
+export interface RingState extends PrefabState {
+  ringColliders: number[];
+  cornerColliders: number[];
+  escapeSensorColliders: number[];
+  escapedBalls: number[];
+  particleEmissions: [ballHandle: number, time: number][];
+  physicsTime: number;
+}
+
+export interface ObstacleState extends PrefabState {
+  collider: number;
+  /** Seconds the obstacle has been moving */
+  time: number;
+  hits: [ballHandle: number, time: number][];
+}
+
+export interface PowerUpState extends PrefabState {
+  sensor: number;
+  age: number;
+  collected: boolean;
+}
+
+export interface KillBoundaryState extends PrefabState {
+  killSensorColliders: number[];
+  killedBalls: number[];
+}
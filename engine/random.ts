@@ -0,0 +1,59 @@
+/**
+ * Small seedable PRNG (mulberry32). The same seed yields the same sequence on
+ * every platform, which keeps spawning as deterministic as Rapier itself.
+ */
+export class Random {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Internal state, for saving a round mid-way
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Recreate a generator exactly where `getState()` left it
+   */
+  static fromState(seed: number, state: number): Random {
+    const random = new Random(seed);
+    random.state = state >>> 0;
+    return random;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Next float in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Next integer in [0, maxExclusive)
+   */
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+}
+
+/**
+ * Create a fresh 32-bit seed for a round that wasn't given one
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
@@ -0,0 +1,73 @@
+import type { GameConfig } from "../config";
+import type { SimulationCommand } from "../commands";
+import { GameState } from "../../types/GameState";
+import { validateGameConfig } from "./validateConfig";
+
+export const REPLAY_VERSION = 14;
+
+/** A command together with the fixed step (since round start) it was applied at */
+export type ReplayEvent = [step: number, command: SimulationCommand];
+
+/**
+ * Everything needed to reproduce a round bit-for-bit in a fresh simulation
+ */
+export interface Replay {
+  version: number;
+  seed: number;
+  /** Snapshot of the configuration the round was played with */
+  config: GameConfig;
+  events: ReplayEvent[];
+  /** Outcome at the time the replay was taken, used to verify playback */
+  result: {
+    /** Step the round ended at, or steps played so far if it hadn't ended */
+    steps: number;
+    escaped: number;
+    state: GameState;
+  };
+}
+
+/**
+ * Serialize a replay to compact JSON for sharing or attaching to bug reports
+ */
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse a replay produced by `serializeReplay`, throwing on malformed input
+ */
+export function deserializeReplay(data: string): Replay {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch (error) {
+    throw new Error(`Invalid replay: ${(error as Error).message}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Invalid replay: expected an object');
+  }
+  const replay = parsed as Record<string, unknown>;
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${String(replay.version)}`);
+  }
+  if (typeof replay.seed !== 'number' || !replay.config || typeof replay.config !== 'object' || !Array.isArray(replay.events)) {
+    throw new Error('Invalid replay: missing seed, config or events');
+  }
+
+  const first: unknown = replay.events[0];
+  const [firstStep, firstCommand]: unknown[] = Array.isArray(first) ? first : [];
+  const startsRound = firstCommand !== null && typeof firstCommand === 'object' &&
+    (firstCommand as { type?: unknown }).type === 'start';
+  if (firstStep !== 0 || !startsRound) {
+    throw new Error('Invalid replay: first event must start the round');
+  }
+
+  try {
+    validateGameConfig(replay.config);
+  } catch (error) {
+    throw new Error(`Invalid replay: ${(error as Error).message}`);
+  }
+
+  return replay as unknown as Replay;
+}
@@ -0,0 +1,67 @@
+import type RAPIER from "@dimforge/rapier2d-deterministic";
+import { Simulation } from "../Simulation";
+import { GameState } from "../../types/GameState";
+import type { Replay } from "./Replay";
+
+/**
+ * Feeds a recorded round back into a fresh simulation. Call `update()` before
+ * every `Simulation.step()` so each command lands on the step it was
+ * recorded at.
+ */
+export class ReplayPlayer {
+  private cursor = 0;
+
+  constructor(readonly replay: Replay) {}
+
+  /**
+   * Create a simulation matching the recorded configuration
+   */
+  createSimulation(R: typeof RAPIER): Simulation {
+    return new Simulation(R, this.replay.config);
+  }
+
+  /**
+   * Apply every command due at the simulation's current step
+   */
+  update(simulation: Simulation) {
+    const events = this.replay.events;
+
+    while (this.cursor < events.length) {
+      const [step, command] = events[this.cursor];
+      // The start command resets the step index, so it is always due first
+      if (this.cursor > 0 && step > simulation.getStepIndex()) break;
+
+      simulation.applyCommand(command);
+      this.cursor++;
+    }
+  }
+
+  isFinished(simulation: Simulation): boolean {
+    return this.cursor >= this.replay.events.length && simulation.getGameState() !== GameState.PLAYING;
+  }
+}
+
+/**
+ * Play a replay headlessly to completion and report the outcome, e.g. to
+ * verify a shared run or reproduce a bug report in CI
+ */
+export function runReplay(R: typeof RAPIER, replay: Replay, maxSteps: number = 1_000_000): Replay["result"] {
+  const player = new ReplayPlayer(replay);
+  const simulation = player.createSimulation(R);
+
+  try {
+    player.update(simulation);
+    while (!player.isFinished(simulation) && simulation.getStepIndex() < maxSteps) {
+      simulation.step();
+      player.update(simulation);
+    }
+
+    return {
+      steps: simulation.getEndStep() ?? simulation.getStepIndex(),
+      escaped: simulation.escapedBallsCount,
+      state: simulation.getGameState()
+    };
+  } finally {
+    simulation.destroy();
+  }
+}
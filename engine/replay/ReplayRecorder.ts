@@ -0,0 +1,71 @@
+import type { Simulation } from "../Simulation";
+import { GameState } from "../../types/GameState";
+import type { SimulationCommand } from "../commands";
+import { REPLAY_VERSION, type Replay, type ReplayEvent } from "./Replay";
+
+/**
+ * Records the commands applied to a simulation. Every `start` command begins
+ * a new recording, so `getReplay()` always describes the latest round.
+ */
+export class ReplayRecorder {
+  private seed: number | null = null;
+  private config: Simulation["config"] | null = null;
+  private events: ReplayEvent[] = [];
+  /** Outcome captured when the round ended; balls can still escape after that */
+  private result: Replay["result"] | null = null;
+  private unsubscribers: Array<() => void>;
+
+  constructor(private simulation: Simulation) {
+    this.unsubscribers = [
+      simulation.events.on('command', ({ command, step }) => {
+        this.record(command, step);
+      }),
+      simulation.events.on('stateChanged', ({ state }) => {
+        if (this.seed !== null && (state === GameState.WIN || state === GameState.GAME_OVER)) {
+          this.result = this.captureResult();
+        }
+      })
+    ];
+  }
+
+  private record(command: SimulationCommand, step: number) {
+    if (command.type === 'start') {
+      this.seed = command.seed;
+      this.config = JSON.parse(JSON.stringify(this.simulation.config));
+      this.events = [];
+      this.result = null;
+    }
+
+    // Commands before the first round don't affect any replayable outcome
+    if (this.seed === null) return;
+
+    this.events.push([step, command]);
+  }
+
+  /**
+   * Replay of the latest round, or null if no round has started yet
+   */
+  getReplay(): Replay | null {
+    if (this.seed === null || this.config === null) return null;
+
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      config: this.config,
+      events: this.events.map(([step, command]) => [step, { ...command }]),
+      result: this.result ? { ...this.result } : this.captureResult()
+    };
+  }
+
+  private captureResult(): Replay["result"] {
+    return {
+      steps: this.simulation.getEndStep() ?? this.simulation.getStepIndex(),
+      escaped: this.simulation.escapedBallsCount,
+      state: this.simulation.getGameState()
+    };
+  }
+
+  detach() {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+}
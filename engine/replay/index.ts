@@ -0,0 +1,4 @@
+export { ReplayRecorder } from "./ReplayRecorder";
+export { ReplayPlayer, runReplay } from "./ReplayPlayer";
+export { serializeReplay, deserializeReplay, REPLAY_VERSION } from "./Replay";
+export type { Replay, ReplayEvent } from "./Replay";
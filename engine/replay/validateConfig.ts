@@ -0,0 +1,295 @@
+import { GAME_CONFIG, type GameConfig } from "../config";
+import { createOutline } from "../objects";
+
+export class ConfigValidationError extends Error {
+  constructor(readonly path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/**
+ * Fields `checkLike` leaves to `checkVariants`: their shape depends on their
+ * `type` (or form), or they map names to entries with optional fields
+ */
+const VARIANT_KEYS = new Set(['shape', 'velocity', 'behavior', 'objective', 'ballTypes', 'particleEffects']);
+
+/** Required fields of a particle effect */
+const PARTICLE_EFFECT_TEMPLATE = {
+  shape: '',
+  size: 0,
+  count: 0,
+  lifetime: { min: 0, max: 0 },
+  alpha: [{ value: 0, time: 0 }],
+  scale: [{ value: 0, time: 0 }],
+  speed: [{ value: 0, time: 0 }],
+  spread: 0
+};
+const PARTICLE_SHAPES = ['dot', 'square', 'streak'];
+
+const OBJECTIVE_FIELDS: Record<string, string[]> = {
+  escape: ['count'],
+  survive: ['seconds', 'minBalls'],
+  escapeColor: ['color', 'count'],
+  noKills: [],
+  escapeBeforeHits: ['count', 'maxHits']
+};
+
+const OBSTACLE_FIELDS: Record<string, string[]> = {
+  peg: ['x', 'y', 'radius'],
+  bumper: ['x', 'y', 'radius', 'kick'],
+  paddle: ['x', 'y', 'length', 'thickness', 'angle', 'spinSpeed'],
+  movingWall: ['speed', 'length', 'thickness', 'angle']
+};
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ConfigValidationError(path, 'expected an object');
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectNumber(value: unknown, path: string, min: number = -Infinity, max: number = Infinity): number {
+  if (typeof value !== 'number' || !isFinite(value)) {
+    throw new ConfigValidationError(path, 'expected a number');
+  }
+  if (value < min || value > max) {
+    throw new ConfigValidationError(path, `expected a number between ${min} and ${max}, got ${value}`);
+  }
+  return value;
+}
+
+function expectInteger(value: unknown, path: string, min: number, max: number): number {
+  const number = expectNumber(value, path, min, max);
+  if (!Number.isInteger(number)) {
+    throw new ConfigValidationError(path, `expected a whole number, got ${number}`);
+  }
+  return number;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new ConfigValidationError(path, 'expected an array');
+  }
+  return value;
+}
+
+/**
+ * Check `value` has the fields of `template` with the same types
+ */
+function checkLike(value: unknown, template: unknown, path: string) {
+  if (Array.isArray(template)) {
+    const items = expectArray(value, path);
+    if (template.length > 0) {
+      items.forEach((item, i) => checkLike(item, template[0], `${path}[${i}]`));
+    }
+    return;
+  }
+
+  switch (typeof template) {
+    case 'number':
+      expectNumber(value, path);
+      return;
+    case 'string':
+    case 'boolean':
+      if (typeof value !== typeof template) {
+        throw new ConfigValidationError(path, `expected a ${typeof template}`);
+      }
+      return;
+    case 'object': {
+      if (template === null) return;
+      const obj = expectObject(value, path);
+      const fields = template as Record<string, unknown>;
+      Object.keys(fields).forEach(key => {
+        if (VARIANT_KEYS.has(key) && typeof fields[key] === 'object') return;
+        checkLike(obj[key], fields[key], `${path}.${key}`);
+      });
+    }
+  }
+}
+
+function checkNumbers(obj: Record<string, unknown>, fields: string[], path: string) {
+  fields.forEach(field => expectNumber(obj[field], `${path}.${field}`));
+}
+
+function checkObjective(value: unknown, path: string) {
+  const objective = expectObject(value, path);
+  if (objective.type === 'all' || objective.type === 'any') {
+    const children = expectArray(objective.objectives, `${path}.objectives`);
+    if (children.length === 0) {
+      throw new ConfigValidationError(`${path}.objectives`, 'expected a non-empty array of objectives');
+    }
+    children.forEach((child, i) => checkObjective(child, `${path}.objectives[${i}]`));
+    return;
+  }
+
+  const fields = typeof objective.type === 'string' && Object.prototype.hasOwnProperty.call(OBJECTIVE_FIELDS, objective.type)
+    ? OBJECTIVE_FIELDS[objective.type]
+    : null;
+  if (!fields) {
+    throw new ConfigValidationError(`${path}.type`, `unknown objective type ${JSON.stringify(objective.type)}`);
+  }
+  checkNumbers(objective, fields, path);
+}
+
+function checkSpawn(value: unknown, path: string, ballTypes: Record<string, unknown>) {
+  const spawn = expectObject(value, path);
+  const velocity = expectObject(spawn.velocity, `${path}.velocity`);
+  checkNumbers(velocity, 'magnitude' in velocity ? ['magnitude', 'angle'] : ['x', 'y'], `${path}.velocity`);
+  if (spawn.count !== undefined) {
+    expectInteger(spawn.count, `${path}.count`, 0, 10000);
+  }
+  if (spawn.types !== undefined) {
+    expectArray(spawn.types, `${path}.types`).forEach((entry, i) => {
+      const choice = expectObject(entry, `${path}.types[${i}]`);
+      if (typeof choice.type !== 'string' || !Object.prototype.hasOwnProperty.call(ballTypes, choice.type)) {
+        throw new ConfigValidationError(`${path}.types[${i}].type`, `unknown ball type ${JSON.stringify(choice.type)}`);
+      }
+      expectNumber(choice.weight, `${path}.types[${i}].weight`, 0);
+    });
+  }
+}
+
+/**
+ * Check the fields `checkLike` leaves out, and the values that would crash
+ * the physics or renderer rather than merely play oddly
+ */
+function checkVariants(config: GameConfig, path: string) {
+  expectNumber(config.physics.fixedDt, `${path}.physics.fixedDt`, 1e-4, 0.1);
+  expectInteger(config.gameplay.maxBalls, `${path}.gameplay.maxBalls`, 1, 10000);
+  expectNumber(config.gameplay.timeLimit, `${path}.gameplay.timeLimit`, 0);
+  if (config.gameplay.objective !== undefined) {
+    checkObjective(config.gameplay.objective, `${path}.gameplay.objective`);
+  }
+
+  expectNumber(config.ball.radius, `${path}.ball.radius`, 0.01);
+  expectNumber(config.ball.density, `${path}.ball.density`, 0.001);
+  expectInteger(config.ball.trail.maxLength, `${path}.ball.trail.maxLength`, 0, 1000);
+  expectInteger(config.ball.trail.sampleSteps, `${path}.ball.trail.sampleSteps`, 1, 1000);
+
+  const ballTypes = expectObject(config.ballTypes, `${path}.ballTypes`);
+  Object.entries(ballTypes).forEach(([name, value]) => {
+    const type = expectObject(value, `${path}.ballTypes.${name}`);
+    if (type.radius !== undefined) {
+      expectNumber(type.radius, `${path}.ballTypes.${name}.radius`, 0.01);
+    }
+    if (type.behavior === undefined) return;
+
+    const behavior = expectObject(type.behavior, `${path}.ballTypes.${name}.behavior`);
+    if (behavior.type === 'split') {
+      expectInteger(behavior.count, `${path}.ballTypes.${name}.behavior.count`, 0, 100);
+      checkNumbers(behavior, ['speed', 'spread'], `${path}.ballTypes.${name}.behavior`);
+      if (typeof behavior.childType !== 'string' || !Object.prototype.hasOwnProperty.call(ballTypes, behavior.childType)) {
+        throw new ConfigValidationError(`${path}.ballTypes.${name}.behavior.childType`, `unknown ball type ${JSON.stringify(behavior.childType)}`);
+      }
+    } else if (behavior.type === 'magnetic') {
+      checkNumbers(behavior, ['strength', 'range'], `${path}.ballTypes.${name}.behavior`);
+    } else {
+      throw new ConfigValidationError(`${path}.ballTypes.${name}.behavior.type`, `unknown behavior ${JSON.stringify(behavior.type)}`);
+    }
+  });
+
+  const effects = expectObject(config.particleEffects, `${path}.particleEffects`);
+  Object.entries(effects).forEach(([name, value]) => {
+    checkLike(value, PARTICLE_EFFECT_TEMPLATE, `${path}.particleEffects.${name}`);
+    const effect = value as Record<string, unknown>;
+    if (!PARTICLE_SHAPES.includes(effect.shape as string)) {
+      throw new ConfigValidationError(`${path}.particleEffects.${name}.shape`, `unknown particle shape ${JSON.stringify(effect.shape)}`);
+    }
+    expectInteger(effect.count, `${path}.particleEffects.${name}.count`, 0, 1000);
+  });
+
+  if (config.rings.length === 0) {
+    throw new ConfigValidationError(`${path}.rings`, 'expected at least one ring');
+  }
+  config.rings.forEach((ring, i) => {
+    const p = `${path}.rings[${i}]`;
+    expectNumber(ring.radius, `${p}.radius`, 0.1);
+    expectNumber(ring.thickness, `${p}.thickness`, 0.01);
+    expectInteger(ring.segments, `${p}.segments`, 3, 4096);
+    expectNumber(ring.escapeSensorOffset, `${p}.escapeSensorOffset`, 0);
+    expectNumber(ring.escapeSensorThickness, `${p}.escapeSensorThickness`, 0.01);
+    ring.gaps.forEach((gap, j) => expectNumber(gap.width, `${p}.gaps[${j}].width`, 0, 2 * Math.PI));
+
+    if (ring.shape !== undefined) {
+      const shape = expectObject(ring.shape, `${p}.shape`);
+      const fields: Record<string, string[]> = {
+        circle: [],
+        polygon: ['sides'],
+        star: ['points', 'innerRadius'],
+        roundedRect: ['width', 'height', 'cornerRadius'],
+        path: []
+      };
+      if (typeof shape.type !== 'string' || !Object.prototype.hasOwnProperty.call(fields, shape.type)) {
+        throw new ConfigValidationError(`${p}.shape.type`, `unknown shape ${JSON.stringify(shape.type)}`);
+      }
+      checkNumbers(shape, fields[shape.type], `${p}.shape`);
+      if (shape.type === 'polygon') expectInteger(shape.sides, `${p}.shape.sides`, 3, 64);
+      if (shape.type === 'star') expectInteger(shape.points, `${p}.shape.points`, 3, 32);
+      if (shape.type === 'path' && typeof shape.path !== 'string') {
+        throw new ConfigValidationError(`${p}.shape.path`, 'expected a string');
+      }
+    }
+
+    let extent: number;
+    try {
+      extent = createOutline(ring).extent;
+    } catch (error) {
+      throw new ConfigValidationError(`${p}.shape`, (error as Error).message);
+    }
+    if (!isFinite(extent) || extent <= 0) {
+      throw new ConfigValidationError(`${p}.shape`, 'expected an outline around the ring center');
+    }
+  });
+
+  config.obstacles.forEach((value, i) => {
+    const p = `${path}.obstacles[${i}]`;
+    const obstacle = expectObject(value, p);
+    const fields = typeof obstacle.type === 'string' && Object.prototype.hasOwnProperty.call(OBSTACLE_FIELDS, obstacle.type)
+      ? OBSTACLE_FIELDS[obstacle.type]
+      : null;
+    if (!fields) {
+      throw new ConfigValidationError(`${p}.type`, `unknown obstacle type ${JSON.stringify(obstacle.type)}`);
+    }
+    checkNumbers(obstacle, ['restitution', 'friction', 'color'], p);
+    checkNumbers(obstacle, fields, p);
+    expectObject(obstacle.particles, `${p}.particles`);
+    if (obstacle.type === 'movingWall') {
+      const path = expectArray(obstacle.path, `${p}.path`);
+      if (path.length < 2) {
+        throw new ConfigValidationError(`${p}.path`, 'expected at least 2 points');
+      }
+      path.forEach((point, j) => checkNumbers(expectObject(point, `${p}.path[${j}]`), ['x', 'y'], `${p}.path[${j}]`));
+    }
+  });
+
+  checkSpawn(config.spawning.initial, `${path}.spawning.initial`, ballTypes);
+  checkSpawn(config.spawning.onRingEscape, `${path}.spawning.onRingEscape`, ballTypes);
+
+  const bounds = expectObject(config.killBoundary.shape, `${path}.killBoundary.shape`);
+  if (bounds.type === 'circle') {
+    expectNumber(bounds.radius, `${path}.killBoundary.shape.radius`, 0.1);
+  } else if (bounds.type === 'box') {
+    expectNumber(bounds.width, `${path}.killBoundary.shape.width`, 0.1);
+    expectNumber(bounds.height, `${path}.killBoundary.shape.height`, 0.1);
+  } else {
+    throw new ConfigValidationError(`${path}.killBoundary.shape.type`, `expected "circle" or "box", got ${JSON.stringify(bounds.type)}`);
+  }
+  expectNumber(config.killBoundary.thickness, `${path}.killBoundary.thickness`, 0.01);
+
+  expectInteger(config.pooling.maxBalls, `${path}.pooling.maxBalls`, 0, 10000);
+  expectInteger(config.pooling.maxBallViews, `${path}.pooling.maxBallViews`, 0, 10000);
+  expectInteger(config.pooling.maxEmitters, `${path}.pooling.maxEmitters`, 0, 10000);
+}
+
+/**
+ * Check a configuration from untrusted input (a shared replay) against the
+ * shape of `GAME_CONFIG`. Throws a `ConfigValidationError` naming the
+ * offending field, so bad input is rejected before it reaches the engine.
+ */
+export function validateGameConfig(data: unknown, path: string = 'config'): GameConfig {
+  checkLike(data, GAME_CONFIG, path);
+  const config = data as GameConfig;
+  checkVariants(config, path);
+  return config;
+}
@@ -5,10 +5,11 @@ export class ScaleManager {
 
   // Configuration for responsive scaling
   private config = {
-    targetRingScreenRatio: 0.75, // Ring diameter should be 75% of smaller screen dimension
+    worldScreenRatio: 1.0, // World bounds should span this much of the screen along their tighter axis
     minPPM: 20,  // Minimum pixels per meter (prevents too-small elements)
     maxPPM: 100, // Maximum pixels per meter (prevents too-large elements on huge screens)
-    ringPhysicsRadius: 5.5 // The ring's radius in physics units
+    worldWidth: 16, // Width of the world bounds in physics units
+    worldHeight: 16 // Height of the world bounds in physics units
   };
 
   static getInstance(): ScaleManager {
@@ -19,18 +20,14 @@ export class ScaleManager {
   }
 
   /**
-   * Calculate optimal PPM based on screen dimensions and target ring appearance
+   * Calculate optimal PPM so the world bounds fit the screen
    */
   calculateOptimalPPM(screenWidth: number, screenHeight: number): number {
-    // Use the smaller dimension to ensure ring fits in both orientations
-    const minScreenDimension = Math.min(screenWidth, screenHeight);
-
-    // Calculate target ring diameter in pixels
-    const targetRingDiameterPx = minScreenDimension * this.config.targetRingScreenRatio;
-
-    // Calculate required PPM: target pixels / physics diameter
-    const physicsRingDiameter = this.config.ringPhysicsRadius * 2;
-    const requiredPPM = targetRingDiameterPx / physicsRingDiameter;
+    // Fit whichever axis is tighter so the world is visible in both orientations
+    const requiredPPM = Math.min(
+      screenWidth / this.config.worldWidth,
+      screenHeight / this.config.worldHeight
+    ) * this.config.worldScreenRatio;
 
     // Clamp to min/max bounds
     return Math.max(this.config.minPPM, Math.min(this.config.maxPPM, requiredPPM));
@@ -44,6 +41,20 @@ export class ScaleManager {
     return this.currentPPM;
   }
 
+  /**
+   * Set the size of the world bounds (physics units) the screen should fit
+   */
+  setWorldSize(width: number, height: number) {
+    this.config = { ...this.config, worldWidth: width, worldHeight: height };
+  }
+
+  /**
+   * Set the PPM graphics are drawn at, e.g. to match the camera before redrawing
+   */
+  setPPM(ppm: number) {
+    this.currentPPM = ppm;
+  }
+
   /**
    * Get current PPM
    */
@@ -0,0 +1,91 @@
+const STORAGE_KEY = "ball-satisfaction:leaderboard";
+const NAME_KEY = "ball-satisfaction:player-name";
+
+/** Entries kept per level */
+const MAX_ENTRIES = 10;
+const MAX_NAME_LENGTH = 16;
+
+export interface LeaderboardEntry {
+  name: string;
+  score: number;
+  /** When the score was set, in milliseconds since the epoch */
+  date: number;
+}
+
+function isEntry(value: unknown): value is LeaderboardEntry {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.name === "string" &&
+    typeof entry.score === "number" && Number.isFinite(entry.score) &&
+    typeof entry.date === "number" && Number.isFinite(entry.date);
+}
+
+/**
+ * Persists the best scores of each level, highest first. Also remembers the
+ * last name entered so the player doesn't have to type it every time.
+ */
+export class Leaderboard {
+  private entries: Record<string, LeaderboardEntry[]> = {};
+
+  constructor(private storage: Storage) {
+    try {
+      const stored: unknown = JSON.parse(storage.getItem(STORAGE_KEY) ?? "{}");
+      if (stored && typeof stored === "object" && !Array.isArray(stored)) {
+        Object.entries(stored).forEach(([levelId, entries]) => {
+          if (!Array.isArray(entries)) return;
+          // Drop entries from corrupt or older data, and restore the order everything else relies on
+          const valid = entries.filter(isEntry).sort((a, b) => b.score - a.score).slice(0, MAX_ENTRIES);
+          if (valid.length > 0) {
+            this.entries[levelId] = valid;
+          }
+        });
+      }
+    } catch {
+      // Corrupt data starts a fresh leaderboard
+    }
+  }
+
+  getEntries(levelId: string): LeaderboardEntry[] {
+    return [...(this.entries[levelId] ?? [])];
+  }
+
+  getBest(levelId: string): number | null {
+    return this.entries[levelId]?.[0]?.score ?? null;
+  }
+
+  /**
+   * Whether `score` would make it onto the level's leaderboard
+   */
+  qualifies(levelId: string, score: number): boolean {
+    const entries = this.entries[levelId] ?? [];
+    return score > 0 && (entries.length < MAX_ENTRIES || score > entries[entries.length - 1].score);
+  }
+
+  /**
+   * Record a score, returning its rank (0 is best) or -1 if it didn't qualify
+   */
+  addEntry(levelId: string, name: string, score: number): number {
+    if (!this.qualifies(levelId, score)) return -1;
+
+    const entry: LeaderboardEntry = {
+      name: name.trim().slice(0, MAX_NAME_LENGTH) || "Player",
+      score,
+      date: Date.now()
+    };
+
+    // Ties go to the earlier score
+    const entries = this.entries[levelId] ?? [];
+    let rank = entries.findIndex(other => score > other.score);
+    if (rank === -1) rank = entries.length;
+    entries.splice(rank, 0, entry);
+    this.entries[levelId] = entries.slice(0, MAX_ENTRIES);
+
+    this.storage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+    this.storage.setItem(NAME_KEY, entry.name);
+    return rank;
+  }
+
+  getLastName(): string {
+    return this.storage.getItem(NAME_KEY) ?? "";
+  }
+}
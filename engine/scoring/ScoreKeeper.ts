@@ -0,0 +1,109 @@
+import type { ScoringConfig } from "../objects";
+
+/** Points awarded for one scoring event */
+export interface ScoreAward {
+  reason: 'escape' | 'firstBounce' | 'timeBonus';
+  points: number;
+  /** Escape multiplier in effect for this award */
+  multiplier: number;
+}
+
+export interface ScoreKeeperState {
+  score: number;
+  combo: number;
+  lastEscapeTime: number | null;
+  bounces: [ballHandle: number, count: number][];
+}
+
+/**
+ * Turns escapes into points. Escapes in quick succession build a combo that
+ * multiplies their points, a ball that escapes by its first bounce off the
+ * outermost ring earns a bonus and winning adds points for the time left.
+ * Times are simulation seconds, so scores are as deterministic as the round.
+ */
+export class ScoreKeeper {
+  private score = 0;
+  /** Escapes chained so far, each within `comboWindow` of the previous one */
+  private combo = 0;
+  private lastEscapeTime: number | null = null;
+  /** Wall bounces per ball handle since it spawned */
+  private bounces = new Map<number, number>();
+
+  constructor(private config: ScoringConfig) {}
+
+  getScore(): number {
+    return this.score;
+  }
+
+  private getMultiplier(): number {
+    return Math.min(this.config.maxMultiplier, 1 + this.config.comboStep * Math.max(0, this.combo - 1));
+  }
+
+  recordBounce(ballHandle: number) {
+    this.bounces.set(ballHandle, (this.bounces.get(ballHandle) ?? 0) + 1);
+  }
+
+  /**
+   * Score a ball clearing the outermost ring at simulation time `time`
+   */
+  escape(ballHandle: number, time: number): ScoreAward[] {
+    const chained = this.lastEscapeTime !== null && time - this.lastEscapeTime <= this.config.comboWindow;
+    this.combo = chained ? this.combo + 1 : 1;
+    this.lastEscapeTime = time;
+
+    const multiplier = this.getMultiplier();
+    const awards: ScoreAward[] = [
+      { reason: 'escape', points: Math.round(this.config.escapePoints * multiplier), multiplier }
+    ];
+
+    if ((this.bounces.get(ballHandle) ?? 0) <= 1) {
+      awards.push({ reason: 'firstBounce', points: Math.round(this.config.firstBounceBonus * multiplier), multiplier });
+    }
+
+    awards.forEach(award => this.score += award.points);
+    return awards;
+  }
+
+  /**
+   * Award the bonus for seconds left when the round is won
+   */
+  timeBonus(secondsRemaining: number): ScoreAward {
+    const award: ScoreAward = {
+      reason: 'timeBonus',
+      points: Math.round(Math.max(0, secondsRemaining) * this.config.timeBonusPerSecond),
+      multiplier: 1
+    };
+    this.score += award.points;
+    return award;
+  }
+
+  /**
+   * Forget a ball that has left the world
+   */
+  removeBall(ballHandle: number) {
+    this.bounces.delete(ballHandle);
+  }
+
+  getState(): ScoreKeeperState {
+    return {
+      score: this.score,
+      combo: this.combo,
+      lastEscapeTime: this.lastEscapeTime,
+      bounces: Array.from(this.bounces.entries())
+    };
+  }
+
+  setState(state: ScoreKeeperState) {
+    this.score = state.score;
+    this.combo = state.combo;
+    this.lastEscapeTime = state.lastEscapeTime;
+    this.bounces = new Map(state.bounces);
+  }
+
+  reset() {
+    this.score = 0;
+    this.combo = 0;
+    this.lastEscapeTime = null;
+    this.bounces.clear();
+  }
+}
@@ -0,0 +1,4 @@
+export { ScoreKeeper } from "./ScoreKeeper";
+export type { ScoreAward, ScoreKeeperState } from "./ScoreKeeper";
+export { Leaderboard } from "./Leaderboard";
+export type { LeaderboardEntry } from "./Leaderboard";
@@ -0,0 +1,54 @@
+import { DEFAULT_THEME, THEMES, themeBallColor, type Theme, type ThemeName } from "./themes";
+
+/**
+ * The theme views draw with. Views resolve colors through it when drawing,
+ * so a theme change only needs the renderer to restyle its views.
+ */
+export class ThemeManager {
+  private static instance: ThemeManager;
+  private name: ThemeName = DEFAULT_THEME;
+
+  static getInstance(): ThemeManager {
+    if (!ThemeManager.instance) {
+      ThemeManager.instance = new ThemeManager();
+    }
+    return ThemeManager.instance;
+  }
+
+  getName(): ThemeName {
+    return this.name;
+  }
+
+  getTheme(): Theme {
+    return THEMES[this.name];
+  }
+
+  setTheme(name: ThemeName) {
+    this.name = name;
+  }
+
+  /**
+   * Color to draw a ball of simulation color `color` with
+   */
+  ballColor(color: number): number {
+    return themeBallColor(this.getTheme(), color);
+  }
+
+  /**
+   * Color to draw a ring wall configured with `color`
+   */
+  ringColor(color: number): number {
+    return this.getTheme().ringColor ?? color;
+  }
+
+  /**
+   * Glow to draw with in place of a configured one, or `null` to use the configured glow
+   */
+  glow(): Theme['glow'] | null {
+    return this.getTheme().glow ?? null;
+  }
+}
+
+const themeManager = ThemeManager.getInstance();
+
+export { themeManager };
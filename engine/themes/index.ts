@@ -0,0 +1,3 @@
+export { THEMES, DEFAULT_THEME, isThemeName, themeBallColor } from "./themes";
+export type { Theme, ThemeName } from "./themes";
+export { ThemeManager, themeManager } from "./ThemeManager";
@@ -0,0 +1,131 @@
+import { GAME_CONFIG } from "../config";
+
+export type ThemeName = 'classic' | 'neon' | 'pastel' | 'monochrome' | 'high-contrast';
+
+/**
+ * Look of the game: how the renderer colors balls, rings, particles and the
+ * background, and how the HUD is styled. Themes only change drawing, never
+ * the simulation, so switching mid-round keeps rounds and replays identical.
+ */
+export interface Theme {
+  label: string;
+  /** Colors balls are drawn with, replacing `GAME_CONFIG.ballColors` by index */
+  palette: number[];
+  /** Ring wall color; rings keep their configured colors when not set */
+  ringColor?: number;
+  /** Glow around balls and rings, replacing their configured glow when set */
+  glow?: { distance: number; outerStrength: number; quality: number };
+  /** Tint multiplied into every particle (0xffffff keeps effect colors) */
+  particleTint: number;
+  /** Vertical background gradient */
+  background: { top: number; bottom: number };
+  /** HUD colors as CSS values */
+  hud: {
+    panel: string;
+    border: string;
+    text: string;
+    label: string;
+    escaped: string;
+    time: string;
+    score: string;
+  };
+}
+
+export const DEFAULT_THEME: ThemeName = 'classic';
+
+export const THEMES: Record<ThemeName, Theme> = {
+  classic: {
+    label: 'Classic',
+    palette: GAME_CONFIG.ballColors,
+    particleTint: 0xffffff,
+    background: { top: 0x333333, bottom: 0x333333 },
+    hud: {
+      panel: 'rgb(0 0 0 / 0.8)',
+      border: 'rgb(255 255 255 / 0.2)',
+      text: '#ffffff',
+      label: '#d1d5db',
+      escaped: '#4ade80',
+      time: '#60a5fa',
+      score: '#fde047'
+    }
+  },
+  neon: {
+    label: 'Neon',
+    palette: [0xff2bd6, 0x00f0ff, 0x39ff14, 0xfff01f, 0xff6b00, 0x9d00ff, 0x00ff9f, 0xff0055],
+    ringColor: 0x00f0ff,
+    glow: { distance: 12, outerStrength: 2, quality: 0.3 },
+    particleTint: 0xffffff,
+    background: { top: 0x0b0221, bottom: 0x1a0638 },
+    hud: {
+      panel: 'rgb(11 2 33 / 0.85)',
+      border: 'rgb(0 240 255 / 0.5)',
+      text: '#e0fbff',
+      label: '#ff2bd6',
+      escaped: '#39ff14',
+      time: '#00f0ff',
+      score: '#fff01f'
+    }
+  },
+  pastel: {
+    label: 'Pastel',
+    palette: [0xffadad, 0xffd6a5, 0xfdffb6, 0xcaffbf, 0x9bf6ff, 0xa0c4ff, 0xbdb2ff, 0xffc6ff],
+    ringColor: 0x6d6875,
+    particleTint: 0xfff0f5,
+    background: { top: 0xfdf6ec, bottom: 0xe8def8 },
+    hud: {
+      panel: 'rgb(255 255 255 / 0.85)',
+      border: 'rgb(109 104 117 / 0.3)',
+      text: '#4a4453',
+      label: '#8a8494',
+      escaped: '#52a37a',
+      time: '#5b7fcf',
+      score: '#d08a3a'
+    }
+  },
+  monochrome: {
+    label: 'Monochrome',
+    palette: [0xffffff, 0xd4d4d4, 0xa3a3a3, 0xe5e5e5, 0xbdbdbd, 0xf5f5f5, 0x8c8c8c, 0xcccccc],
+    ringColor: 0xffffff,
+    particleTint: 0xbbbbbb,
+    background: { top: 0x1a1a1a, bottom: 0x000000 },
+    hud: {
+      panel: 'rgb(0 0 0 / 0.85)',
+      border: 'rgb(255 255 255 / 0.3)',
+      text: '#ffffff',
+      label: '#a3a3a3',
+      escaped: '#ffffff',
+      time: '#ffffff',
+      score: '#ffffff'
+    }
+  },
+  'high-contrast': {
+    label: 'High Contrast',
+    // Distinct hues that stay apart for common color vision deficiencies
+    palette: [0xffff00, 0x00ffff, 0xff00ff, 0xffffff, 0xff8000, 0x00ff00, 0x4da6ff, 0xff3333],
+    ringColor: 0xffffff,
+    particleTint: 0xffffff,
+    background: { top: 0x000000, bottom: 0x000000 },
+    hud: {
+      panel: '#000000',
+      border: '#ffffff',
+      text: '#ffffff',
+      label: '#ffffff',
+      escaped: '#00ff00',
+      time: '#00ffff',
+      score: '#ffff00'
+    }
+  }
+};
+
+/**
+ * Color a theme draws a ball of simulation color `color` with: palette colors
+ * map to the theme's palette by index, other colors (e.g. fixed ball type colors) are kept
+ */
+export function themeBallColor(theme: Theme, color: number): number {
+  const index = GAME_CONFIG.ballColors.indexOf(color);
+  return index === -1 || theme.palette.length === 0 ? color : theme.palette[index % theme.palette.length];
+}
+
+export function isThemeName(name: string): name is ThemeName {
+  return Object.prototype.hasOwnProperty.call(THEMES, name);
+}
@@ -0,0 +1,130 @@
+import * as PIXI from "pixi.js";
+import { AdvancedBloomFilter } from 'pixi-filters';
+import { m2p } from "../scale";
+import { themeManager } from "../themes";
+import type { Ball, BallRenderingConfig } from "../objects";
+
+/** Pixel size the shared disc texture is drawn at; sprites are scaled to each ball's radius */
+const TEXTURE_SIZE = 64;
+
+/**
+ * Draws every ball as a tinted sprite of one shared disc texture in a single
+ * `ParticleContainer`, so hundreds of balls cost one draw call. Glow is a
+ * bloom over the whole layer instead of a filter per ball.
+ *
+ * Only the fill color and alpha are shown: outlines, cores, halos and trails
+ * need per-ball graphics (`BallView`).
+ */
+export class BallBatch {
+  readonly container: PIXI.ParticleContainer;
+  private sprites = new Map<Ball, PIXI.Particle>();
+  /** Sprites of removed balls, reused for new ones */
+  private free: PIXI.Particle[] = [];
+  private texture: PIXI.Texture;
+
+  /**
+   * @param worldSize Size of the world bounds in meters; the glow covers this area
+   */
+  constructor(config: BallRenderingConfig, private worldSize: { width: number; height: number }) {
+    this.texture = BallBatch.createTexture();
+    this.container = new PIXI.ParticleContainer({
+      texture: this.texture,
+      // Color and size only change when a ball is added, which re-uploads them anyway
+      dynamicProperties: { position: true, rotation: false, vertex: false, color: false, uvs: false }
+    });
+
+    if (config.glow.enabled) {
+      this.container.filters = [new AdvancedBloomFilter({
+        threshold: 0,
+        bloomScale: config.glow.bloomScale,
+        blur: config.glow.blur,
+        quality: config.glow.quality
+      })];
+    }
+    this.updateBoundsArea();
+  }
+
+  private static createTexture(): PIXI.Texture {
+    const canvas = document.createElement('canvas');
+    canvas.width = TEXTURE_SIZE;
+    canvas.height = TEXTURE_SIZE;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.fillStyle = '#ffffff';
+      ctx.beginPath();
+      ctx.arc(TEXTURE_SIZE / 2, TEXTURE_SIZE / 2, TEXTURE_SIZE / 2 - 1, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    return PIXI.Texture.from(canvas);
+  }
+
+  /**
+   * Particle containers report no bounds, so give filters the world area to work on
+   */
+  private updateBoundsArea() {
+    const width = m2p(this.worldSize.width);
+    const height = m2p(this.worldSize.height);
+    this.container.boundsArea = new PIXI.Rectangle(-width / 2, -height / 2, width, height);
+  }
+
+  has(ball: Ball): boolean {
+    return this.sprites.has(ball);
+  }
+
+  get size(): number {
+    return this.sprites.size;
+  }
+
+  add(ball: Ball) {
+    const sprite = this.free.pop() ?? new PIXI.Particle({ texture: this.texture, anchorX: 0.5, anchorY: 0.5 });
+    this.style(sprite, ball);
+    this.sprites.set(ball, sprite);
+    this.container.addParticle(sprite);
+  }
+
+  remove(ball: Ball) {
+    const sprite = this.sprites.get(ball);
+    if (!sprite) return;
+
+    this.container.removeParticle(sprite);
+    this.sprites.delete(ball);
+    this.free.push(sprite);
+  }
+
+  private style(sprite: PIXI.Particle, ball: Ball) {
+    const config = ball.config;
+    const scale = m2p(config.radius * 2) / TEXTURE_SIZE;
+    sprite.scaleX = scale;
+    sprite.scaleY = scale;
+    sprite.tint = themeManager.ballColor(config.color);
+    sprite.alpha = config.visual?.alpha ?? 1;
+  }
+
+  /**
+   * Move sprites to their balls (call once per rendered frame)
+   */
+  updateFromPhysics() {
+    this.sprites.forEach((sprite, ball) => {
+      const p = ball.body.translation();
+      sprite.x = m2p(p.x);
+      sprite.y = m2p(p.y);
+    });
+  }
+
+  /**
+   * Resize and recolor sprites for a new pixels per meter or theme
+   */
+  rescale() {
+    this.sprites.forEach((sprite, ball) => this.style(sprite, ball));
+    this.updateBoundsArea();
+    this.container.update();
+    this.updateFromPhysics();
+  }
+
+  destroy() {
+    this.sprites.clear();
+    this.free = [];
+    this.container.destroy();
+    this.texture.destroy(true);
+  }
+}
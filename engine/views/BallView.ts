@@ -0,0 +1,158 @@
+import * as PIXI from "pixi.js";
+import { GlowFilter } from 'pixi-filters';
+import { PrefabView } from "./PrefabView";
+import { TrailRibbon } from "./TrailRibbon";
+import { m2p } from "../scale";
+import { themeManager } from "../themes";
+import type { Ball } from "../objects";
+
+export class BallView extends PrefabView<Ball> {
+  private trail: TrailRibbon;
+  private ballGraphic: PIXI.Graphics;
+  private haloGraphic: PIXI.Graphics | null = null;
+  private trailEnabled: boolean;
+  /** Glow settings the current filter was built with */
+  private glowKey = '';
+  private glowFilter: GlowFilter | null = null;
+
+  constructor(ball: Ball) {
+    super(ball);
+    this.trail = new TrailRibbon(ball.config.trail, themeManager.ballColor(ball.config.color));
+    this.ballGraphic = new PIXI.Graphics();
+    this.trailEnabled = ball.config.trail.enabled;
+    this.init();
+  }
+
+  protected createGraphics() {
+    // Create container to hold both trail and ball
+    const container = new PIXI.Container();
+    container.addChild(this.trail.mesh); // Trail behind ball (won't rotate)
+    container.addChild(this.ballGraphic); // Ball in front (will rotate independently)
+    this.graphic = container;
+
+    this.applyConfig();
+  }
+
+  /**
+   * Reuse this view for another ball (pooled views are rebound instead of rebuilt)
+   */
+  bind(ball: Ball) {
+    this.prefab = ball;
+    this.trailEnabled = ball.config.trail.enabled;
+    this.trail.configure(ball.config.trail, themeManager.ballColor(ball.config.color));
+    this.applyConfig();
+    this.draw();
+    this.updateFromPhysics();
+  }
+
+  /**
+   * Set up the glow filter and halo the ball's config asks for, keeping what is unchanged
+   */
+  private applyConfig() {
+    const config = this.prefab.config;
+    this.trail.mesh.alpha = config.visual?.alpha ?? 1;
+
+    // Apply glow effect if enabled; a theme's glow replaces the configured one
+    const color = themeManager.ballColor(config.color);
+    const themeGlow = themeManager.glow();
+    const glow = themeGlow ? { ...themeGlow, color } : config.glow.enabled ? { ...config.glow, color: config.glow.color ?? color } : null;
+    const glowKey = glow ? JSON.stringify(glow) : '';
+    if (glowKey !== this.glowKey) {
+      this.glowKey = glowKey;
+      // Filters hold GPU resources, so free the one being replaced
+      this.glowFilter?.destroy();
+      this.glowFilter = glow ? new GlowFilter({
+        distance: glow.distance,
+        outerStrength: glow.outerStrength,
+        color: glow.color, // Ball color unless the config sets a glow color
+        quality: glow.quality
+      }) : null;
+      this.ballGraphic.filters = this.glowFilter ? [this.glowFilter] : [];
+    }
+
+    if (config.visual?.halo && !this.haloGraphic) {
+      this.haloGraphic = new PIXI.Graphics();
+      this.graphic.addChildAt(this.haloGraphic, 0); // Halo behind everything
+    }
+    if (this.haloGraphic) {
+      this.haloGraphic.visible = !!config.visual?.halo;
+    }
+  }
+
+  protected draw() {
+    const config = this.prefab.config;
+    const visual = config.visual ?? {};
+    const radius = m2p(config.radius);
+
+    // Draw the ball graphic (this will be rotated)
+    this.ballGraphic.clear();
+    this.ballGraphic.circle(0, 0, radius);
+    this.ballGraphic.fill({ color: themeManager.ballColor(config.color), alpha: visual.alpha ?? 1 });
+    if (visual.outline) {
+      this.ballGraphic.circle(0, 0, radius - visual.outline.width / 2);
+      this.ballGraphic.stroke({ color: visual.outline.color, width: visual.outline.width, alpha: visual.alpha ?? 1 });
+    }
+    if (visual.core) {
+      // Off-center so the ball's spin shows
+      this.ballGraphic.circle(radius * 0.2, 0, radius * visual.core.radius);
+      this.ballGraphic.fill({ color: visual.core.color, alpha: visual.alpha ?? 1 });
+    }
+
+    if (this.haloGraphic && visual.halo) {
+      this.haloGraphic.clear();
+      this.haloGraphic.circle(0, 0, m2p(visual.halo.radius));
+      this.haloGraphic.fill({ color: visual.halo.color, alpha: visual.halo.alpha });
+    }
+  }
+
+  restyle() {
+    const config = this.prefab.config;
+    this.applyConfig();
+    this.trail.setStyle(config.trail, themeManager.ballColor(config.color));
+    this.draw();
+  }
+
+  updateFromPhysics() {
+    const body = this.prefab.body;
+    const p = body.translation();
+    // Set position of the entire container (ball + trail)
+    this.graphic.position.set(m2p(p.x), m2p(p.y));
+
+    // Only rotate the ball graphic, not the entire container
+    this.ballGraphic.rotation = body.rotation();
+
+    if (this.trailEnabled) {
+      const config = this.prefab.config;
+      this.trail.draw(p, config.radius * config.trail.width);
+    }
+  }
+
+  /**
+   * Record a trail point if `step` is one the trail samples at (call after every physics step)
+   */
+  sampleTrail(step: number) {
+    if (!this.trailEnabled || step % this.prefab.config.trail.sampleSteps !== 0) return;
+
+    const p = this.prefab.body.translation();
+    this.trail.push(p.x, p.y, step);
+  }
+
+  clearTrail() {
+    this.trail.clear();
+  }
+
+  setTrailEnabled(enabled: boolean) {
+    this.trailEnabled = enabled;
+    if (!enabled) {
+      this.clearTrail();
+    }
+  }
+
+  // Override destroy to cleanup trail and glow
+  destroy() {
+    this.trail.destroy();
+    this.glowFilter?.destroy();
+    this.glowFilter = null;
+    super.destroy();
+  }
+}
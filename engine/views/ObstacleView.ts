@@ -0,0 +1,67 @@
+import * as PIXI from "pixi.js";
+import { PrefabView } from "./PrefabView";
+import { m2p } from "../scale";
+import type { Obstacle } from "../objects";
+
+/** Seconds a bumper stays lit after a hit */
+const BUMPER_FLASH_TIME = 0.15;
+
+export class ObstacleView extends PrefabView<Obstacle> {
+  private shape!: PIXI.Graphics;
+
+  constructor(obstacle: Obstacle) {
+    super(obstacle);
+    this.init();
+  }
+
+  protected createGraphics() {
+    this.shape = new PIXI.Graphics();
+    this.graphic = this.shape;
+  }
+
+  protected draw() {
+    const config = this.prefab.config;
+    const g = this.shape;
+    g.clear();
+
+    switch (config.type) {
+      case 'peg':
+        g.circle(0, 0, m2p(config.radius));
+        g.fill(config.color);
+        break;
+      case 'bumper': {
+        const r = m2p(config.radius);
+        g.circle(0, 0, r);
+        g.fill({ color: config.color, alpha: 0.35 });
+        g.circle(0, 0, r - 2);
+        g.stroke({ color: config.color, width: 4 });
+        g.circle(0, 0, r * 0.4);
+        g.fill(config.color);
+        break;
+      }
+      case 'paddle':
+      case 'movingWall': {
+        const length = m2p(config.length);
+        const thickness = m2p(config.thickness);
+        g.roundRect(-length / 2, -thickness / 2, length, thickness, thickness / 4);
+        g.fill(config.color);
+        if (config.type === 'paddle') {
+          // Hub the paddle spins around
+          g.circle(0, 0, thickness * 0.3);
+          g.fill(0x000000);
+        }
+        break;
+      }
+    }
+  }
+
+  updateFromPhysics() {
+    super.updateFromPhysics();
+
+    // Bumpers swell briefly when they kick a ball
+    if (this.prefab.config.type === 'bumper') {
+      const sinceHit = this.prefab.getTimeSinceHit();
+      this.graphic.scale.set(sinceHit < BUMPER_FLASH_TIME ? 1.15 : 1);
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import * as PIXI from "pixi.js";
+import { PrefabView } from "./PrefabView";
+import { m2p } from "../scale";
+import type { PowerUp } from "../objects";
+
+/** Seconds before vanishing at which an uncollected power-up starts to blink */
+const BLINK_TIME = 2;
+
+export class PowerUpView extends PrefabView<PowerUp> {
+  private disc!: PIXI.Graphics;
+  private icon!: PIXI.Graphics;
+
+  /**
+   * @param color Tint of this power-up kind
+   * @param lifetime Seconds the power-up stays uncollected
+   */
+  constructor(powerUp: PowerUp, private color: number, private lifetime: number) {
+    super(powerUp);
+    this.init();
+  }
+
+  protected createGraphics() {
+    const container = new PIXI.Container();
+    this.disc = new PIXI.Graphics();
+    this.icon = new PIXI.Graphics();
+    container.addChild(this.disc);
+    container.addChild(this.icon);
+    this.graphic = container;
+  }
+
+  protected draw() {
+    const r = m2p(this.prefab.radius);
+
+    this.disc.clear();
+    this.disc.circle(0, 0, r);
+    this.disc.fill({ color: this.color, alpha: 0.25 });
+    this.disc.circle(0, 0, r);
+    this.disc.stroke({ color: this.color, width: 2 });
+
+    this.icon.clear();
+    this.drawIcon(this.icon, r * 0.55);
+  }
+
+  /**
+   * Simple glyph for each kind, drawn within radius `s`
+   */
+  private drawIcon(g: PIXI.Graphics, s: number) {
+    const stroke = { color: this.color, width: 2, cap: 'round', join: 'round' } as const;
+
+    switch (this.prefab.kind) {
+      case 'widenGap':
+        // Arrows pointing apart
+        g.moveTo(-s * 0.4, -s * 0.6).lineTo(-s, 0).lineTo(-s * 0.4, s * 0.6);
+        g.moveTo(s * 0.4, -s * 0.6).lineTo(s, 0).lineTo(s * 0.4, s * 0.6);
+        g.stroke(stroke);
+        break;
+      case 'slowSpin':
+        // Open circle arrow
+        g.arc(0, 0, s * 0.8, -Math.PI * 0.25, Math.PI * 1.25);
+        g.stroke(stroke);
+        g.moveTo(s * 0.25, -s * 0.75).lineTo(s * 0.57, -s * 0.57).lineTo(s * 0.75, -s * 0.9);
+        g.stroke(stroke);
+        break;
+      case 'extraBalls':
+        [[-0.5, 0.35], [0.5, 0.35], [0, -0.45]].forEach(([x, y]) => g.circle(x * s, y * s, s * 0.3));
+        g.fill(this.color);
+        break;
+      case 'freezeTimer':
+        // Snowflake
+        for (let i = 0; i < 3; i++) {
+          const angle = i * Math.PI / 3;
+          g.moveTo(-s * Math.cos(angle), -s * Math.sin(angle)).lineTo(s * Math.cos(angle), s * Math.sin(angle));
+        }
+        g.stroke(stroke);
+        break;
+    }
+  }
+
+  updateFromPhysics() {
+    super.updateFromPhysics();
+
+    // Gentle pulse, and a blink shortly before the power-up vanishes
+    const t = this.prefab.getAge();
+    this.graphic.scale.set(1 + 0.08 * Math.sin(t * 5));
+    this.icon.rotation = this.prefab.kind === 'slowSpin' ? -t : 0;
+    this.graphic.alpha = this.lifetime - t < BLINK_TIME && Math.floor(t * 6) % 2 === 0 ? 0.35 : 1;
+  }
+}
@@ -0,0 +1,54 @@
+import * as PIXI from "pixi.js";
+import type { Prefab } from "../objects";
+import { m2p } from "../scale";
+
+/**
+ * Pixi counterpart of a `Prefab`: builds the graphics for one simulated
+ * object and keeps them in sync with its Rapier body.
+ *
+ * Display objects and filters are created once by `createGraphics()`; the
+ * geometry, which depends on pixels per meter, is drawn by `draw()` and can be
+ * redrawn in place with `rescale()`.
+ */
+export abstract class PrefabView<T extends Prefab = Prefab> {
+  graphic!: PIXI.Container;
+
+  /** Only views that can be pooled rebind to another object */
+  constructor(public prefab: T) {}
+
+  /** Create `graphic` and its children and filters */
+  protected abstract createGraphics(): void;
+
+  /** Clear and draw the geometry at the current scale */
+  protected abstract draw(): void;
+
+  init() {
+    this.createGraphics();
+    this.draw();
+  }
+
+  /**
+   * Redraw at the current pixels per meter, keeping the display objects
+   */
+  rescale() {
+    this.draw();
+    this.updateFromPhysics();
+  }
+
+  /**
+   * Redraw with the current theme's colors
+   */
+  restyle() {
+    this.draw();
+  }
+
+  updateFromPhysics() {
+    const p = this.prefab.body.translation();
+    this.graphic.position.set(m2p(p.x), m2p(p.y));
+    this.graphic.rotation = this.prefab.body.rotation();
+  }
+
+  destroy() {
+    this.graphic.destroy({ children: true });
+  }
+}
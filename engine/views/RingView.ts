@@ -0,0 +1,175 @@
+import * as PIXI from "pixi.js";
+import { GlowFilter } from 'pixi-filters';
+import { PrefabView } from "./PrefabView";
+import { m2p } from "../scale";
+import { themeManager } from "../themes";
+import type { Ring } from "../objects";
+
+export class RingView extends PrefabView<Ring> {
+  /** Wall pieces that close each timed gap, indexed like `config.gaps` */
+  private gateGraphics: (PIXI.Graphics | null)[] = [];
+  private walls!: PIXI.Graphics;
+  /** Gap scale the walls were last drawn with */
+  private drawnGapScale = 1;
+  private glowFilter: GlowFilter | null = null;
+
+  constructor(ring: Ring) {
+    super(ring);
+    this.init();
+  }
+
+  protected createGraphics() {
+    const config = this.prefab.config;
+    const container = new PIXI.Container();
+    this.walls = new PIXI.Graphics();
+    container.addChild(this.walls);
+
+    // Timed gaps get a wall piece that is shown while the gap is closed
+    this.gateGraphics = config.gaps.map(gap => {
+      if (!gap.timing) return null;
+
+      const gate = new PIXI.Graphics();
+      container.addChild(gate);
+      return gate;
+    });
+
+    this.graphic = container;
+    this.applyGlow();
+  }
+
+  /**
+   * Apply the configured glow, or the theme's glow in the wall color
+   */
+  private applyGlow() {
+    const config = this.prefab.config;
+    const themeGlow = themeManager.glow();
+    const glow = themeGlow
+      ? { ...themeGlow, color: themeManager.ringColor(config.color) }
+      : config.glow.enabled ? config.glow : null;
+
+    // Filters hold GPU resources, so free the one being replaced
+    this.glowFilter?.destroy();
+    this.glowFilter = glow ? new GlowFilter({
+      distance: glow.distance,
+      outerStrength: glow.outerStrength,
+      color: glow.color,
+      quality: glow.quality
+    }) : null;
+    this.graphic.filters = this.glowFilter ? [this.glowFilter] : [];
+  }
+
+  restyle() {
+    this.applyGlow();
+    this.draw();
+  }
+
+  protected draw() {
+    const gapScale = this.drawnGapScale;
+    this.drawWalls(this.walls, gapScale);
+    this.gateGraphics.forEach((gate, i) => {
+      const gap = this.prefab.config.gaps[i];
+      if (gate) {
+        this.drawGate(gate, gap.centerAngle, gap.width * gapScale);
+      }
+    });
+  }
+
+  private strokeStyle() {
+    // Configure stroke so that its centre lies exactly on the physics radius
+    return {
+      width: m2p(this.prefab.config.thickness),
+      color: themeManager.ringColor(this.prefab.config.color),
+      cap:   "round",
+      join:  "round",
+      alignment: 0.5
+    } as const;
+  }
+
+  private isCircle(): boolean {
+    return (this.prefab.config.shape?.type ?? 'circle') === 'circle';
+  }
+
+  /**
+   * Stroke the wall between two angles around the center (clockwise), following the outline
+   */
+  private drawWall(g: PIXI.Graphics, startAngle: number, endAngle: number) {
+    const outline = this.prefab.outline;
+    if (this.isCircle()) {
+      g.arc(0, 0, m2p(this.prefab.config.radius), startAngle, endAngle);
+    } else {
+      const points = outline.pointsBetween(outline.lengthAtAngle(startAngle), outline.lengthAtAngle(endAngle), 0.1);
+      g.moveTo(m2p(points[0].x), m2p(points[0].y));
+      points.slice(1).forEach(p => g.lineTo(m2p(p.x), m2p(p.y)));
+    }
+    g.stroke();
+  }
+
+  private drawGate(gate: PIXI.Graphics, centerAngle: number, width: number) {
+    gate.clear();
+    gate.setStrokeStyle({ ...this.strokeStyle(), cap: "butt" });
+    this.drawWall(gate, centerAngle - width / 2, centerAngle + width / 2);
+  }
+
+  /**
+   * Draw every wall piece between the gaps, with gaps widened by `gapScale`
+   */
+  private drawWalls(walls: PIXI.Graphics, gapScale: number) {
+    const config = this.prefab.config;
+    const outline = this.prefab.outline;
+    walls.clear();
+    walls.setStrokeStyle(this.strokeStyle());
+
+    // Gap intervals (in radians) sorted around the ring, starting in [0, 2π)
+    const gaps = config.gaps
+      .map(gap => {
+        const width = gap.width * gapScale;
+        const start = gap.centerAngle - width / 2;
+        const normStart = ((start % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+        return { start: normStart, end: normStart + width };
+      })
+      .sort((a, b) => a.start - b.start);
+
+    if (gaps.length === 0) {
+      if (this.isCircle()) {
+        walls.circle(0, 0, m2p(config.radius));
+      } else {
+        const points = outline.pointsBetween(0, outline.length, 0.1);
+        walls.poly(points.flatMap(p => [m2p(p.x), m2p(p.y)]));
+      }
+      walls.stroke();
+    }
+
+    // Draw one arc (clockwise) from the end of each gap to the start of the next
+    // Example: with a single gap from 4.5→4.9 rad, we draw from 4.9 → (4.5+2π) rad.
+    gaps.forEach((gap, i) => {
+      const next = gaps[(i + 1) % gaps.length];
+      const nextStart = i === gaps.length - 1 ? next.start + 2 * Math.PI : next.start;
+      if (nextStart <= gap.end) return; // Overlapping gaps leave no wall between them
+
+      this.drawWall(walls, gap.end, nextStart);
+    });
+  }
+
+  updateFromPhysics() {
+    super.updateFromPhysics();
+
+    // Widened gaps (power-ups) redraw the wall
+    const gapScale = this.prefab.getGapScale();
+    if (gapScale !== this.drawnGapScale) {
+      this.drawnGapScale = gapScale;
+      this.draw();
+    }
+
+    this.gateGraphics.forEach((gate, i) => {
+      if (gate) {
+        gate.visible = !this.prefab.isGapOpen(i);
+      }
+    });
+  }
+
+  destroy() {
+    this.glowFilter?.destroy();
+    this.glowFilter = null;
+    super.destroy();
+  }
+}
@@ -0,0 +1,178 @@
+import * as PIXI from "pixi.js";
+import { m2p } from "../scale";
+import type { BallTrailConfig, TrailSegment } from "../objects/interfaces";
+
+/** Pixel width of gradient textures; the ribbon maps its length onto it */
+const GRADIENT_SIZE = 64;
+
+/** Gradient textures by tail color, head color and tail alpha, shared by every trail */
+const gradients = new Map<string, PIXI.Texture>();
+
+/**
+ * Texture running from the tail color and alpha (left) to the head color at
+ * full alpha (right). The alpha follows a cubic curve so the tail fades fast.
+ */
+function getGradient(tailColor: number, headColor: number, tailAlpha: number): PIXI.Texture {
+  const key = `${tailColor}-${headColor}-${tailAlpha}`;
+  const cached = gradients.get(key);
+  if (cached) return cached;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = GRADIENT_SIZE;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    const channel = (color: number, shift: number) => (color >> shift) & 0xff;
+    for (let x = 0; x < GRADIENT_SIZE; x++) {
+      const t = x / (GRADIENT_SIZE - 1);
+      const mix = (shift: number) => Math.round(channel(tailColor, shift) + (channel(headColor, shift) - channel(tailColor, shift)) * t);
+      const alpha = tailAlpha + (1 - tailAlpha) * t ** 3;
+      ctx.fillStyle = `rgba(${mix(16)}, ${mix(8)}, ${mix(0)}, ${alpha})`;
+      ctx.fillRect(x, 0, 1, 1);
+    }
+  }
+
+  const texture = PIXI.Texture.from(canvas);
+  gradients.set(key, texture);
+  return texture;
+}
+
+/**
+ * Ball trail drawn as one tapered triangle-strip mesh: two vertices per
+ * sampled point, offset along the averaged normal of the neighbouring
+ * segments so joins stay smooth. Points are sampled on physics steps and kept
+ * in physics units; the newest vertex follows the ball every frame.
+ *
+ * Buffers are sized for `maxLength` points once, so drawing never allocates.
+ */
+export class TrailRibbon {
+  readonly mesh: PIXI.MeshSimple;
+  private points: TrailSegment[] = [];
+  private maxLength = 0;
+
+  constructor(config: BallTrailConfig, color: number) {
+    this.mesh = new PIXI.MeshSimple({
+      texture: PIXI.Texture.WHITE,
+      vertices: new Float32Array(0),
+      uvs: new Float32Array(0),
+      indices: new Uint32Array(0)
+    });
+    this.configure(config, color);
+  }
+
+  /**
+   * Apply a trail config, e.g. when a pooled ball view is rebound
+   */
+  configure(config: BallTrailConfig, color: number) {
+    this.setStyle(config, color);
+
+    if (config.maxLength !== this.maxLength) {
+      this.maxLength = config.maxLength;
+      this.allocate(config.maxLength + 1); // Sampled points plus the live head
+    }
+    this.clear();
+  }
+
+  /**
+   * Change colors and blending, keeping the sampled points
+   */
+  setStyle(config: BallTrailConfig, color: number) {
+    const head = config.color ?? color;
+    this.mesh.texture = getGradient(config.tailColor ?? head, head, config.fadeAlpha);
+    this.mesh.blendMode = config.blendMode === 'add' ? 'add' : 'normal';
+  }
+
+  private allocate(count: number) {
+    const geometry = this.mesh.geometry;
+    geometry.positions = new Float32Array(count * 4);
+    geometry.uvs = new Float32Array(count * 4);
+
+    const indices = new Uint32Array(Math.max(0, count - 1) * 6);
+    for (let i = 0; i < count - 1; i++) {
+      const v = i * 2;
+      indices.set([v, v + 1, v + 2, v + 1, v + 3, v + 2], i * 6);
+    }
+    geometry.indices = indices;
+  }
+
+  /**
+   * Record a point (physics units) at a physics step
+   */
+  push(x: number, y: number, step: number) {
+    this.points.push({ x, y, step });
+    if (this.points.length > this.maxLength) {
+      this.points.shift();
+    }
+  }
+
+  clear() {
+    this.points = [];
+    this.mesh.visible = false;
+  }
+
+  /**
+   * Rebuild the strip relative to the ball at `head` (physics units)
+   * @param halfWidth Half the ribbon width at the head, in physics units
+   */
+  draw(head: { x: number; y: number }, halfWidth: number) {
+    const count = this.points.length + 1;
+    if (count < 2) {
+      this.mesh.visible = false;
+      return;
+    }
+    this.mesh.visible = true;
+
+    const point = (i: number) => i < this.points.length ? this.points[i] : head;
+    const positions = this.mesh.geometry.positions;
+    const uvs = this.mesh.geometry.uvs;
+
+    for (let i = 0; i < count; i++) {
+      // Tangent across the neighbouring points gives a mitre-free smooth join
+      const prev = point(Math.max(0, i - 1));
+      const next = point(Math.min(count - 1, i + 1));
+      let tx = next.x - prev.x;
+      let ty = next.y - prev.y;
+      const length = Math.sqrt(tx * tx + ty * ty) || 1;
+      tx /= length;
+      ty /= length;
+
+      // Tapers from nothing at the tail to full width at the head
+      const progress = i / (count - 1);
+      const offset = m2p(halfWidth * progress);
+      const p = point(i);
+      const x = m2p(p.x - head.x);
+      const y = m2p(p.y - head.y);
+
+      positions[i * 4] = x - ty * offset;
+      positions[i * 4 + 1] = y + tx * offset;
+      positions[i * 4 + 2] = x + ty * offset;
+      positions[i * 4 + 3] = y - tx * offset;
+      uvs[i * 4] = progress;
+      uvs[i * 4 + 1] = 0;
+      uvs[i * 4 + 2] = progress;
+      uvs[i * 4 + 3] = 1;
+    }
+
+    // Collapse unused slots onto the head so they draw nothing
+    for (let i = count; i <= this.maxLength; i++) {
+      positions.fill(0, i * 4, i * 4 + 4);
+      uvs.fill(1, i * 4, i * 4 + 4);
+    }
+
+    this.mesh.geometry.getBuffer('aPosition').update();
+    this.mesh.geometry.getBuffer('aUV').update();
+  }
+
+  destroy() {
+    this.points = [];
+    this.mesh.destroy();
+  }
+
+  /**
+   * Free the shared gradient textures (when the renderer shuts down)
+   */
+  static destroyTextures() {
+    gradients.forEach(texture => texture.destroy(true));
+    gradients.clear();
+  }
+}
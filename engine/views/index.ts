@@ -0,0 +1,7 @@
+export { PrefabView } from "./PrefabView";
+export { BallView } from "./BallView";
+export { BallBatch } from "./BallBatch";
+export { TrailRibbon } from "./TrailRibbon";
+export { RingView } from "./RingView";
+export { PowerUpView } from "./PowerUpView";
+export { ObstacleView } from "./ObstacleView";
@@ -1,6 +1,7 @@
 export enum GameState {
   LOADING = 'loading',
   PLAYING = 'playing',
+  PAUSED = 'paused',
   GAME_OVER = 'game_over',
   WIN = 'win'
 }
\ No newline at end of file